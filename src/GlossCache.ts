@@ -0,0 +1,166 @@
+import { JsonFileSnapshotStorage, loadSnapshot, MemorySnapshotStorage } from './jsonFile.js';
+import { CachedLineage, CacheOptions, CacheSnapshot, CacheStorage, LogEntry, VerificationStatus } from './types.js';
+
+/**
+ * The newest revision of each entry in a lineage, decoded and with its
+ * signature checked.
+ */
+export interface DecodedRevision {
+  log: LogEntry;
+  verification: VerificationStatus;
+  /** Transaction holding the revision, for revisions in the tip value */
+  txid?: string;
+}
+
+/**
+ * Keeps the cache in process memory only.
+ */
+export class MemoryCacheStorage extends MemorySnapshotStorage<CacheSnapshot> implements CacheStorage {}
+
+/**
+ * Persists the cache to a JSON file (Node.js only).
+ */
+export class FileCacheStorage extends JsonFileSnapshotStorage<CacheSnapshot> implements CacheStorage {
+  constructor(path: string) {
+    super(path, (parsed: any) => {
+      if (parsed == null || typeof parsed !== 'object' || !Array.isArray(parsed.lineages)) return undefined;
+      return { days: parsed.days ?? {}, lineages: parsed.lineages };
+    });
+  }
+}
+
+/**
+ * GlossCache - Day lineages kept between reads
+ *
+ * Lineages are keyed by controller + day (+ device lineage key). For each day the cache also records
+ * when its full list of lineages was last checked, so an unfiltered read
+ * within the TTL needs no store request at all. Deciding when to check and
+ * what to refetch is up to the client.
+ *
+ * Decoded entries are kept per lineage in memory only, for as long as the
+ * lineage's tip is unchanged, so a warm read neither parses nor verifies the
+ * chain again. They are not persisted: a file should not vouch for
+ * signatures, and private entries stay encrypted in it.
+ */
+export class GlossCache {
+  readonly ttlMs: number;
+  readonly pastDayTtlMs: number;
+  private storage: CacheStorage;
+  private days = new Map<string, number>();
+  private lineages = new Map<string, CachedLineage>();
+  private decoded = new Map<string, { tip: string; revisions: DecodedRevision[] }>();
+  private ready: Promise<void>;
+
+  constructor(options: CacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 60_000;
+    this.pastDayTtlMs = options.pastDayTtlMs ?? Infinity;
+    this.storage = options.storage ?? new MemoryCacheStorage();
+    this.ready = loadSnapshot(this.storage, snapshot => {
+      if (!snapshot) return;
+      for (const [day, checkedAt] of Object.entries(snapshot.days)) {
+        this.days.set(day, checkedAt);
+      }
+      for (const lineage of snapshot.lineages) {
+        this.lineages.set(this.lineageId(lineage), lineage);
+      }
+    });
+  }
+
+  /**
+   * When the day's full lineage list was last checked, if ever.
+   */
+  async dayCheckedAt(day: string): Promise<number | undefined> {
+    await this.ready;
+    return this.days.get(day);
+  }
+
+  /**
+   * Cached lineages for a day, optionally for one controller only.
+   */
+  async lineagesFor(day: string, controller?: string): Promise<CachedLineage[]> {
+    await this.ready;
+    return [...this.lineages.values()].filter(lineage =>
+      lineage.day === day && (controller === undefined || lineage.controller === controller));
+  }
+
+  /**
+   * Revisions decoded from a lineage at its current tip, if any.
+   */
+  decodedRevisions(lineage: CachedLineage): DecodedRevision[] | undefined {
+    const found = this.decoded.get(this.lineageId(lineage));
+    return found && found.tip === tipOf(lineage) ? found.revisions : undefined;
+  }
+
+  /**
+   * Keep the revisions decoded from a lineage until its tip changes.
+   */
+  rememberDecoded(lineage: CachedLineage, revisions: DecodedRevision[]): void {
+    this.decoded.set(this.lineageId(lineage), { tip: tipOf(lineage), revisions });
+  }
+
+  /**
+   * Record the outcome of checking a day against the store and persist it.
+   *
+   * @param current - Lineages confirmed or refetched by the check
+   * @param removed - Cached lineages of the day that no longer exist
+   * @param checkedAt - Set when the check covered every lineage of the day
+   */
+  async update(day: string, current: CachedLineage[], removed: CachedLineage[], checkedAt?: number): Promise<void> {
+    await this.ready;
+    for (const lineage of current) {
+      this.lineages.set(this.lineageId({ ...lineage, day }), lineage);
+    }
+    for (const lineage of removed) {
+      this.lineages.delete(this.lineageId({ ...lineage, day }));
+      this.decoded.delete(this.lineageId({ ...lineage, day }));
+    }
+    if (checkedAt !== undefined) this.days.set(day, checkedAt);
+    await this.persist();
+  }
+
+  /**
+   * Forget a controller's lineages for a day after a local write so the next
+   * read refetches them.
+   */
+  async invalidate(day: string, controller: string): Promise<void> {
+    await this.ready;
+    for (const [id, lineage] of this.lineages) {
+      if (lineage.day === day && lineage.controller === controller) {
+        this.lineages.delete(id);
+        this.decoded.delete(id);
+      }
+    }
+    this.days.delete(day);
+    await this.persist();
+  }
+
+  /**
+   * Forget everything, in memory and in storage.
+   */
+  async clear(): Promise<void> {
+    await this.ready;
+    this.lineages.clear();
+    this.decoded.clear();
+    this.days.clear();
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    await this.storage.save({
+      days: Object.fromEntries(this.days),
+      lineages: [...this.lineages.values()]
+    });
+  }
+
+  private lineageId(lineage: Pick<CachedLineage, 'controller' | 'day' | 'key'>): string {
+    return `${lineage.controller}\u0000${lineage.day}\u0000${lineage.key ?? ''}`;
+  }
+}
+
+/**
+ * What identifies a lineage's tip: its txid, or the tip value itself when the
+ * store reports no txid.
+ */
+function tipOf(lineage: CachedLineage): string {
+  return lineage.txid ?? `value:${lineage.value}`;
+}
@@ -1,15 +1,80 @@
-import { GlobalKVStore, WalletClient, StorageUploader, WalletProtocol } from '@bsv/sdk';
+import { GlobalKVStore, Hash, WalletClient, StorageDownloader, StorageUploader, Utils, WalletProtocol } from '@bsv/sdk';
 import {
+  ActivityStats,
+  AssetDescriptor,
+  CachedLineage,
+  CacheSyncResult,
   GlossConfig,
+  GlossMiddleware,
   LogEntry,
   CreateLogOptions,
+  DayResult,
+  DirectoryEntry,
+  DownloadOptions,
+  DownloadResult,
+  EntryDiagnostic,
+  EntryRef,
+  ExportFormat,
+  ExportOptions,
+  FeedEntry,
+  FeedOptions,
+  FieldValue,
+  GlossStore,
+  HttpFetch,
+  IdentityInfo,
+  ImportOptions,
+  ImportResult,
+  LogManyInput,
+  OutboxFlushResult,
+  OutboxRecord,
   QueryOptions,
+  RangeOptions,
+  RemoveEntryOptions,
+  RetryOptions,
+  SearchOptions,
+  SearchResult,
+  StatsOptions,
+  ThreadNode,
+  ThreadOptions,
+  TodayOptions,
   UploadResult,
-  UploadOptions
+  UploadOptions,
+  VerificationStatus,
+  WatchOptions,
+  WriteContext,
+  WriteOperation
 } from './types.js';
+import { isSealed, redactEntry, sealEntry, SealedLogEntry, SealedValue, unsealEntry } from './encryption.js';
+import {
+  InvalidEntryError,
+  NotFoundError,
+  NotOwnerError,
+  OverlayUnavailableError,
+  toGlossError,
+  UploadFailedError,
+  WalletUnavailableError,
+  withRetry
+} from './errors.js';
+import { describeUpload, expectedHash, isUhrpURL, readAssets, sha256Hex, toDescriptor } from './assets.js';
+import { DecodedRevision, GlossCache } from './GlossCache.js';
+import { displayName, GlossDirectory } from './GlossDirectory.js';
+import { MiddlewareChain } from './middleware.js';
+import { ContentGuard } from './policy.js';
+import { GlossOutbox } from './GlossOutbox.js';
+import { GlobalKVGlossStore } from './GlossStore.js';
+import { CURRENT_SCHEMA_VERSION, SchemaRegistry } from './schema.js';
+import { levelRank, readContext, readFields, readLevel, validateStructured } from './structured.js';
+import { isSigned, proofFor, signStoredValue, SignedLogEntry, verifyProof } from './signing.js';
+import { GlossWatcher } from './GlossWatcher.js';
+import { parseNdjson, toAtom, toJsonFeed, toMarkdown, toNdjson } from './formats.js';
+import { buildSnippet, matchEntry, parseSearchQuery, recencyWeight } from './search.js';
+import { countEntry, emptyStats } from './stats.js';
+import { assertTimeZone, zonedTime } from './clock.js';
 
 // Protocol identifier for gloss logs
 const GLOSS_PROTOCOL_ID: WalletProtocol = [1, 'gloss logs'];
+// Caller-supplied entry keys: the day, then a short suffix of safe characters.
+const ENTRY_KEY = /^\d{4}-\d{2}-\d{2}\/[A-Za-z0-9._:-]{1,64}$/;
 
 /**
  * GlossClient - Global developer logging client
@@ -18,28 +83,46 @@ const GLOSS_PROTOCOL_ID: WalletProtocol = [1, 'gloss logs'];
  * 
  * Architecture:
  * - Each log() call creates a new token spending the previous day token
- * - Each token contains a single log entry (not a chain of entries)
+ * - Each token contains a single log entry (not a chain of entries), or a
+ *   logMany() batch of entries written in one step
  * - History traversal reconstructs all logs for a day by following the spend chain
  * - This eliminates data duplication and keeps tokens minimal
  *
  * Time Handling:
- * - Uses LOCAL time for day keys and log timestamps
+ * - Uses LOCAL time for day keys and log timestamps: the configured
+ *   `timeZone`, or the host's time zone when none is set
  * - This ensures logs appear on the correct day in the user's timezone
  * - Example: Evening log on Oct 24 PST stays on Oct 24, not next day UTC
+ * - The current time comes from the configured `clock` (default: system time)
  *
  * Key format:
  *   entry/{YYYY-MM-DD}  (day-level key in local timezone)
+ *   entry/{YYYY-MM-DD}/{device}  (per-device lineage, with `deviceId`)
  *
  * Log Entry format (local time):
  *   {YYYY-MM-DD}/{HHmmss-SSS<rand>}
  *
  * Discovery:
  *   listDay() queries by day key with history=true to traverse the spend chain
- *   and collect all individual log entries for that day.
+ *   and collect all individual log entries for that day. Per-device lineages
+ *   carry a `devices/{YYYY-MM-DD}` tag and are found by a second query on it.
  */
 export class GlossClient {
-  private kv: GlobalKVStore;
-  private config: Required<GlossConfig>;
+  private kv: GlossStore;
+  private config: Required<Omit<GlossConfig, 'outbox' | 'schema' | 'timeZone' | 'clock' | 'random' | 'store' | 'cache' | 'fetch' | 'resolveAsset' | 'retry' | 'deviceId' | 'middleware' | 'policy' | 'directory'>>;
+  private schema: SchemaRegistry;
+  private timeZone: string | undefined;
+  private clock: () => Date;
+  private random: () => number;
+  private fetch: HttpFetch;
+  private resolveAsset: (uhrpURL: string) => Promise<string[]>;
+  private retry: RetryOptions;
+  private device: string | undefined;
+  private middleware: MiddlewareChain;
+  private policy: ContentGuard | null;
+  private directory: GlossDirectory;
+  private outbox: GlossOutbox | null = null;
+  private cache: GlossCache | null = null;
   private identityKey: string | null = null;
 
   constructor(config: GlossConfig = {}) {
@@ -50,9 +133,25 @@ export class GlossClient {
       networkPreset: config.networkPreset ?? 'mainnet',
       walletMode: config.walletMode ?? 'auto'
     };
+    this.schema = config.schema ?? new SchemaRegistry();
+    if (config.timeZone) assertTimeZone(config.timeZone);
+    this.timeZone = config.timeZone;
+    this.clock = config.clock ?? (() => new Date());
+    this.random = config.random ?? Math.random;
+    this.fetch = config.fetch ?? (url => fetch(url));
+    this.resolveAsset = config.resolveAsset ??
+      (url => new StorageDownloader({ networkPreset: this.config.networkPreset }).resolve(url));
+    this.retry = config.retry ?? {};
+    // Only a hash of the device name is published.
+    this.device = config.deviceId
+      ? Utils.toHex(Hash.sha256(Utils.toArray(config.deviceId, 'utf8'))).slice(0, 16)
+      : undefined;
+    this.middleware = new MiddlewareChain(config.middleware);
+    this.policy = config.policy === false ? null : new ContentGuard(config.policy);
+    this.directory = new GlossDirectory(config.directory);
 
-    // Initialize GlobalKVStore
-    this.kv = new GlobalKVStore({
+    // Use the configured store, or GlobalKVStore on the overlay
+    this.kv = config.store ?? new GlobalKVGlossStore(new GlobalKVStore({
       wallet: this.config.wallet,
       protocolID: GLOSS_PROTOCOL_ID,
       serviceName: 'ls_kvstore',
@@ -61,7 +160,40 @@ export class GlossClient {
       tokenSetDescription: 'Gloss developer log entry',
       tokenUpdateDescription: 'Updated gloss log entry',
       tokenRemovalDescription: 'Removed gloss log entry'
-    });
+    }));
+
+    if (config.cache) {
+      this.cache = new GlossCache(config.cache);
+    }
+
+    if (config.outbox) {
+      this.outbox = new GlossOutbox(async record => {
+        let txid: string | undefined;
+        try {
+          txid = await this.writeDay(record.day, await this.toStoredString(record.value), record.tags);
+        } catch (error) {
+          await this.middleware.reportError(error, { operation: 'deliver' });
+          throw error;
+        }
+        const parsed = JSON.parse(record.value);
+        const logs: LogEntry[] = Array.isArray(parsed.logs) ? parsed.logs : [parsed];
+        await this.middleware.afterWrite(await Promise.all(logs.map(log => this.openQueued(log))), {
+          operation: record.operation ?? (record.keys ? 'logMany' : 'log'),
+          day: record.day,
+          txid
+        });
+      }, config.outbox, () => this.clock().getTime());
+    }
+  }
+
+  /**
+   * Register middleware, run after any registered before it.
+   *
+   * @returns This client, for chaining
+   */
+  use(middleware: GlossMiddleware): this {
+    this.middleware.use(middleware);
+    return this;
   }
 
   /**
@@ -69,8 +201,12 @@ export class GlossClient {
    */
   private async ensureIdentityKey(): Promise<string> {
     if (!this.identityKey) {
-      const result = await this.config.wallet.getPublicKey({ identityKey: true });
-      this.identityKey = result.publicKey;
+      try {
+        const result = await this.config.wallet.getPublicKey({ identityKey: true });
+        this.identityKey = result.publicKey;
+      } catch (error) {
+        throw toGlossError(error, WalletUnavailableError);
+      }
     }
     return this.identityKey!;
   }
@@ -80,31 +216,161 @@ export class GlossClient {
    * Each log is stored as the next value in the controller's day-level token
    * lineage. History traversal reconstructs the full day.
    *
+   * With an outbox configured, the entry is queued durably and this resolves
+   * once it is queued; delivery happens in the background (see delivered()
+   * and flush()). The entry keeps the day key of the moment it was logged.
+   *
+   * With a `key` or `idempotencyKey`, the caller's entries of the day
+   * (queued or stored) are checked first; an entry logged with the same one
+   * is returned as it is and nothing is written.
+   *
    * @param text - The log message
    * @param options - Optional configuration
    * @returns The created log entry
    */
   async log(text: string, options: CreateLogOptions = {}): Promise<LogEntry> {
-    const now = new Date();
-    const day = this.getLocalDate(now);
-    const identityKey = await this.ensureIdentityKey();
-    const key = this.nextIdForDay(day, now);
+    return this.middleware.guard('log', async () => {
+      validateStructured(options);
+      this.validateParent(options.parent);
+      const now = this.clock();
+      const day = this.getLocalDate(now);
+      this.validateWriteKeys(options, day);
+      const identityKey = await this.ensureIdentityKey();
+      const [logged] = await this.findLogged(day, identityKey, [options]);
+      if (logged) return logged;
+      const key = options.key ?? this.nextIdForDay(day, now);
 
-    const entry: LogEntry = {
-      key,
-      at: now.toISOString(),
-      text,
-      tags: options.tags ?? [],
-      assets: options.assets ?? [],
-      controller: identityKey
-    };
+      const built: LogEntry = {
+        key,
+        at: now.toISOString(),
+        text,
+        tags: options.tags ?? [],
+        assets: (options.assets ?? []).map(toDescriptor),
+        controller: identityKey
+      };
+      if (options.idempotencyKey) built.idempotencyKey = options.idempotencyKey;
+      this.applyStructured(built, options);
+      if (options.parent) built.parent = { ...options.parent };
+      this.applyRecipients(built, options.recipients);
+      const entry = this.checkContent(await this.prepareWrite(built, { operation: 'log', day }), options.allowSecrets);
+
+      // Store only this single log entry as the next value in the day lineage.
+      await this.append(day, [entry], false, now, 'log');
+
+      return entry;
+    });
+  }
+
+  /**
+   * Create several log entries in one spend-chain step.
+   * The entries are stored together as a single envelope value in the
+   * controller's current day lineage, costing one transaction instead of one
+   * per entry. They share one timestamp and receive keys that sort in the
+   * order given. Entries with a `key` or `idempotencyKey` the caller already
+   * logged that day are returned as they are and not written again.
+   *
+   * @param entries - Text and options for each entry
+   * @returns The created log entries, in the order given
+   */
+  async logMany(entries: LogManyInput[]): Promise<LogEntry[]> {
+    return this.middleware.guard('logMany', async () => {
+      if (entries.length === 0) return [];
+      const now = this.clock();
+      const day = this.getLocalDate(now);
+      entries.forEach(input => {
+        validateStructured(input);
+        this.validateParent(input.parent);
+        this.validateWriteKeys(input, day);
+      });
+      for (const name of ['key', 'idempotencyKey'] as const) {
+        const given = entries.map(input => input[name]).filter(value => value !== undefined);
+        if (new Set(given).size < given.length) {
+          throw new InvalidEntryError(`Two entries have the same ${name}`);
+        }
+      }
+      const identityKey = await this.ensureIdentityKey();
+      const logged = await this.findLogged(day, identityKey, entries);
+      const pending = entries.filter((_, i) => !logged[i]);
+
+      const explicit = new Set(entries.map(input => input.key));
+      const sortedKeys = this.batchKeys(day, now, pending.filter(input => !input.key).length, explicit);
+
+      const logs: LogEntry[] = [];
+      for (const input of pending) {
+        const log: LogEntry = {
+          key: input.key ?? sortedKeys.shift()!,
+          at: now.toISOString(),
+          text: input.text,
+          tags: input.tags ?? [],
+          assets: (input.assets ?? []).map(toDescriptor),
+          controller: identityKey
+        };
+        if (input.idempotencyKey) log.idempotencyKey = input.idempotencyKey;
+        this.applyStructured(log, input);
+        if (input.parent) log.parent = { ...input.parent };
+        this.applyRecipients(log, input.recipients);
+        logs.push(this.checkContent(await this.prepareWrite(log, { operation: 'logMany', day }), input.allowSecrets));
+      }
+
+      if (logs.length > 0) {
+        await this.append(day, logs, true, now, 'logMany');
+      }
+
+      return logged.map(log => log ?? logs.shift()!);
+    });
+  }
+
+  /**
+   * Attempt delivery of every entry waiting in the outbox now, ignoring
+   * retry delays. Without an outbox there is never anything pending.
+   */
+  async flush(): Promise<OutboxFlushResult> {
+    if (!this.outbox) return { delivered: 0, pending: 0 };
+    return this.outbox.flush();
+  }
+
+  /**
+   * List entries waiting in the outbox, in the order they will be written.
+   */
+  async pending(): Promise<OutboxRecord[]> {
+    if (!this.outbox) return [];
+    return this.outbox.pending();
+  }
+
+  /**
+   * Resolves once the outbox has written the entry with this key.
+   * Resolves immediately for keys that are not queued.
+   *
+   * @param logKey - Key of an entry returned by log()
+   */
+  async delivered(logKey: string): Promise<void> {
+    await this.outbox?.delivered(logKey);
+  }
+
+  /**
+   * Check the days from `from` to `to` (inclusive) against the store now,
+   * regardless of TTL, and refetch every lineage whose tip changed.
+   * Does nothing without a configured cache.
+   *
+   * @param from - First day, YYYY-MM-DD
+   * @param to - Last day, YYYY-MM-DD (default: `from`)
+   */
+  async sync(from: string, to: string = from): Promise<CacheSyncResult> {
+    const days = this.daysBetween(from, to);
+    if (!this.cache) return { days: 0, fetched: 0 };
 
-    // Store only this single log entry as the next value in the day lineage.
-    const serialized = JSON.stringify(entry);
-    const tags = [...(options.tags ?? []), day]; // Include day as tag for filtering
-    await this.kv.set(this.dayKey(day), serialized, { tags });
+    let fetched = 0;
+    for (const day of days) {
+      fetched += (await this.fetchCachedDayRows(this.cache, day, {}, { pages: Infinity }, true)).fetched;
+    }
+    return { days: days.length, fetched };
+  }
 
-    return entry;
+  /**
+   * Drop every cached lineage, in memory and in the cache storage.
+   */
+  async clearCache(): Promise<void> {
+    await this.cache?.clear();
   }
 
   /**
@@ -124,133 +390,489 @@ export class GlossClient {
    * @param date - YYYY-MM-DD format
    * @param options - Optional filters and pagination (see QueryOptions)
    * @returns entries sorted by key (chronological)
+   * @throws {InvalidEntryError} If the date is not a valid YYYY-MM-DD date
    */
   async listDay(date: string, options: QueryOptions = {}): Promise<LogEntry[]> {
-    const dayKey = this.dayKey(date);
-    const query: any = { key: dayKey };
+    return this.middleware.guard('listDay', async () => (await this.readDay(date, options)).entries);
+  }
 
-    if (options.controller) {
-      query.controller = options.controller;
+  /**
+   * Like listDay(), but also returns a diagnostic for every stored value that
+   * was rejected or repaired while decoding. Combine with `strict: true` to
+   * see malformed data instead of substituted keys and timestamps.
+   *
+   * @param date - YYYY-MM-DD format
+   * @param options - Optional filters and pagination (see QueryOptions)
+   * @throws {InvalidEntryError} If the date is not a valid YYYY-MM-DD date
+   */
+  async listDayWithDiagnostics(date: string, options: QueryOptions = {}): Promise<DayResult> {
+    return this.middleware.guard('listDayWithDiagnostics', () => this.readDay(date, options, false, true));
+  }
+
+  /**
+   * Read a day as listDayWithDiagnostics() does. Internal checks pass
+   * `raw` to see the stored entries without afterRead middleware.
+   * Diagnostics are only collected when `diagnose` is set.
+   */
+  private async readDay(date: string, options: QueryOptions, raw = false, diagnose = false): Promise<DayResult> {
+    this.parseDate(date);
+    const budget = { pages: options.maxPages && options.maxPages > 0 ? options.maxPages : Infinity };
+    const rows = await this.fetchDayRows(date, options, budget);
+    const diagnostics: EntryDiagnostic[] = [];
+    let logs = this.sortLogs(await this.reconstructDay(rows, options, diagnose ? diagnostics : undefined), options.sortOrder);
+    if (!raw) {
+      logs = await this.middleware.afterRead(logs, { operation: 'listDay', day: date });
     }
 
-    if (options.tags && options.tags.length > 0) {
-      query.tags = options.tags;
-      if (options.tagQueryMode) {
-        query.tagQueryMode = options.tagQueryMode;
+    const skip = Math.max(0, options.skip ?? 0);
+    const limited = options.limit && options.limit > 0 ? logs.slice(skip, skip + options.limit) : logs.slice(skip);
+
+    if (options.replyCountDays && options.replyCountDays > 0 && limited.length > 0) {
+      const counts = await this.countReplies(date, options.replyCountDays, options);
+      for (const log of limited) {
+        log.replyCount = counts.get(this.entryIdentity(log)) ?? 0;
       }
     }
 
-    const getOptions: any = { history: true };
-    if (options.includeTxid) {
-      getOptions.includeToken = true;
+    return { entries: limited, diagnostics };
+  }
+
+  /**
+   * List log entries across an inclusive range of local dates.
+   * Collects the results of iterate(from, to, options).
+   *
+   * @param from - First date in YYYY-MM-DD format
+   * @param to - Last date in YYYY-MM-DD format
+   * @param options - Optional filters, pagination and concurrency (see RangeOptions)
+   */
+  async listRange(from: string, to: string, options: RangeOptions = {}): Promise<LogEntry[]> {
+    const logs: LogEntry[] = [];
+    for await (const log of this.iterate(from, to, options)) {
+      logs.push(log);
     }
+    return logs;
+  }
 
-    const result = await this.kv.get(query, getOptions);
-    const rows = Array.isArray(result) ? result : result ? [result] : [];
+  /**
+   * Iterate log entries across an inclusive range of local dates.
+   *
+   * Day keys are walked in `sortOrder` (ascending by default) and entries
+   * within each day are yielded in the same order. Up to `concurrency` days
+   * are fetched at once. `skip` and `limit` apply to the filtered entries of
+   * the whole range, and `maxPages` caps the store pages read across all
+   * days; iteration stops once either is reached.
+   *
+   * @param from - First date in YYYY-MM-DD format
+   * @param to - Last date in YYYY-MM-DD format
+   * @param options - Optional filters, pagination and concurrency (see RangeOptions)
+   */
+  async *iterate(from: string, to: string, options: RangeOptions = {}): AsyncGenerator<LogEntry> {
+    try {
+      const days = this.daysBetween(from, to);
+      if (options.sortOrder === 'desc') {
+        days.reverse();
+      }
 
-    const tagSet = options.tags && options.tags.length > 0 ? new Set(options.tags) : undefined;
-    const logs: LogEntry[] = [];
-    const seenEntries = new Set<string>(); // Deduplicate logical entries per controller
+      const concurrency = Math.max(1, options.concurrency ?? 4);
+      const budget = { pages: options.maxPages && options.maxPages > 0 ? options.maxPages : Infinity };
+      let toSkip = Math.max(0, options.skip ?? 0);
+      let remaining = options.limit && options.limit > 0 ? options.limit : Infinity;
 
-    // Process current and historical entries
-    for (const record of rows) {
-      const currentTxid = record.token?.txid;
+      for (let i = 0; i < days.length && budget.pages > 0; i += concurrency) {
+        const window = days.slice(i, i + concurrency);
+        const fetched = await Promise.all(window.map(day => this.fetchDayRows(day, options, budget)));
 
-      // Process current entry
-      if (typeof record?.value === 'string') {
-        const log = this.parseLogEntry(record.value, record.controller);
-        const entryIdentity = log ? `${log.controller ?? record.controller ?? ''}\u0000${log.key}` : '';
-        if (log && !seenEntries.has(entryIdentity)) {
-          if (options.controller && log.controller !== options.controller) continue;
-          if (tagSet && !this.matchesTagFilter(log.tags ?? [], tagSet, options.tagQueryMode)) continue;
-
-          const clonedLog = this.cloneLog(log);
-          if (options.includeTxid && currentTxid) {
-            clonedLog.txid = currentTxid;
+        for (const [j, rows] of fetched.entries()) {
+          const sorted = this.sortLogs(await this.reconstructDay(rows, options), options.sortOrder);
+          const logs = await this.middleware.afterRead(sorted, { operation: 'iterate', day: window[j] });
+          for (const log of logs) {
+            if (toSkip > 0) {
+              toSkip--;
+              continue;
+            }
+            yield log;
+            if (--remaining <= 0) return;
           }
-          logs.push(clonedLog);
-          seenEntries.add(entryIdentity);
         }
       }
+    } catch (error) {
+      await this.middleware.reportError(error, { operation: 'iterate' });
+      throw error;
+    }
+  }
 
-      // Process historical entries newest-first so an updated logical entry
-      // wins over its older revisions. Historian returns oldest-first.
-      if (Array.isArray(record?.history)) {
-        for (const pastValue of [...record.history].reverse()) {
-          if (typeof pastValue !== 'string') continue;
+  /**
+   * Search entry text and tags across a range of days.
+   * The query is a list of words that must all match; `"quoted phrases"`
+   * match consecutive words, `auth*` matches word prefixes and `-word`
+   * excludes entries. Results are ranked by relevance and recency.
+   * Days are read exactly as listDay() reads them, cache included.
+   *
+   * @param query - Search query
+   * @param options - Range, filters, result limit and snippet markers
+   * @returns The best matches, highest score first
+   * @throws {InvalidEntryError} If the query has no term that must match
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const clauses = parseSearchQuery(query);
+    const now = this.clock();
+    const to = options.to ?? this.getLocalDate(now);
+    const from = options.from ?? this.addDays(to, -29);
+    const limit = options.limit && options.limit > 0 ? options.limit : 20;
+    const mark = options.mark ?? ['**', '**'];
 
-          const log = this.parseLogEntry(pastValue, record.controller);
-          const entryIdentity = log ? `${log.controller ?? record.controller ?? ''}\u0000${log.key}` : '';
-          if (log && !seenEntries.has(entryIdentity)) {
-            if (options.controller && log.controller !== options.controller) continue;
-            if (tagSet && !this.matchesTagFilter(log.tags ?? [], tagSet, options.tagQueryMode)) continue;
-
-            // GlobalKVStore history currently contains values without
-            // per-transaction metadata. Do not attach the current lineage
-            // tip's txid to a historical value: that txid belongs only to
-            // record.value and would falsely make every historical entry look
-            // like the same transaction.
-            const clonedLog = this.cloneLog(log);
-            logs.push(clonedLog);
-            seenEntries.add(entryIdentity);
-          }
-        }
-      }
+    const results: SearchResult[] = [];
+    for await (const entry of this.iterate(from, to, {
+      controller: options.controller,
+      tags: options.tags,
+      tagQueryMode: options.tagQueryMode,
+      unreadable: options.unreadable,
+      requireVerified: options.requireVerified,
+      pageSize: options.pageSize,
+      maxPages: options.maxPages,
+      concurrency: options.concurrency
+    })) {
+      if (entry.redacted) continue;
+      const match = matchEntry(entry, clauses);
+      if (!match) continue;
+      results.push({
+        entry,
+        score: match.relevance * (0.5 + 0.5 * recencyWeight(entry.at, now)),
+        snippet: buildSnippet(entry.text, match.highlights, mark),
+        highlights: match.highlights
+      });
     }
 
-    const sortOrder = options.sortOrder ?? 'asc';
-    logs.sort((a, b) => a.key.localeCompare(b.key));
-    if (sortOrder === 'desc') {
-      logs.reverse();
+    results.sort((a, b) => b.score - a.score || b.entry.at.localeCompare(a.entry.at));
+    return results.slice(0, limit);
+  }
+
+  /**
+   * Activity statistics for an inclusive range of days: entries, edits and
+   * assets per controller, tag, day and hour of the day.
+   * Entries are counted as iterate() returns them; edits are counted from
+   * the revisions getLogHistory() would return, one history read per day
+   * with entries.
+   *
+   * @param from - First day in YYYY-MM-DD format
+   * @param to - Last day in YYYY-MM-DD format
+   * @param options - Filters, and the time zone for the hour-of-day counts
+   */
+  async stats(from: string, to: string, options: StatsOptions = {}): Promise<ActivityStats> {
+    const { timeZone, ...query } = options;
+    if (timeZone) assertTimeZone(timeZone);
+    const stats = emptyStats(from, to, this.daysBetween(from, to));
+
+    const entriesByDay = new Map<string, LogEntry[]>();
+    for await (const entry of this.iterate(from, to, query)) {
+      const day = entry.key.slice(0, 10);
+      if (!entriesByDay.has(day)) entriesByDay.set(day, []);
+      entriesByDay.get(day)!.push(entry);
     }
 
-    const skip = Math.max(0, options.skip ?? 0);
-    const limited = options.limit && options.limit > 0 ? logs.slice(skip, skip + options.limit) : logs.slice(skip);
+    for (const [day, entries] of entriesByDay) {
+      const wanted = new Set(entries.map(entry => this.entryIdentity(entry)));
+      const history = await this.dayHistory(day, { requireVerified: query.requireVerified }, log =>
+        wanted.has(this.entryIdentity(log)));
+      // Distinct timestamps, so a revision held in several stored values counts once.
+      const revisions = new Map<string, Set<string>>();
+      for (const revision of history) {
+        const identity = this.entryIdentity(revision);
+        if (!revisions.has(identity)) revisions.set(identity, new Set());
+        revisions.get(identity)!.add(revision.at);
+      }
+
+      for (const entry of entries) {
+        // An entry's `at` is that of its latest edit; it was created at its first revision.
+        const ats = [...(revisions.get(this.entryIdentity(entry)) ?? [])];
+        const createdAt = ats.reduce((earliest, at) => at < earliest ? at : earliest, entry.at);
+        const hour = zonedTime(new Date(createdAt), timeZone ?? this.timeZone).hour;
+        countEntry(stats, entry, Math.max(ats.length, 1), createdAt, hour);
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Add an identity to the local directory, or replace its name and handle.
+   * The directory is never published; it names authors in feed() results
+   * and lets follow() and unfollow() take `@handle`s.
+   *
+   * @param identityKey - Controller identity key
+   * @param info - Display name and unique handle
+   * @throws {InvalidEntryError} If the handle is malformed or belongs to another identity
+   */
+  async setIdentity(identityKey: string, info: IdentityInfo): Promise<DirectoryEntry> {
+    return this.directory.set(identityKey, info);
+  }
+
+  /**
+   * Remove an identity's name and handle from the directory. Follow lists
+   * keep the identity.
+   *
+   * @returns false if the identity was not in the directory
+   */
+  async removeIdentity(identityKey: string): Promise<boolean> {
+    return this.directory.remove(identityKey);
+  }
+
+  /**
+   * Every identity in the directory, by display name.
+   */
+  async listIdentities(): Promise<DirectoryEntry[]> {
+    return this.directory.list();
+  }
+
+  /**
+   * Add an identity to a named follow list.
+   *
+   * @param identity - Identity key, or `@handle` from the directory
+   * @param listName - Follow list (default 'default')
+   * @returns false if the list already contained the identity
+   * @throws {NotFoundError} If an `@handle` is not in the directory
+   */
+  async follow(identity: string, listName = 'default'): Promise<boolean> {
+    return this.directory.follow(listName, await this.directory.resolve(identity));
+  }
+
+  /**
+   * Remove an identity from a named follow list.
+   *
+   * @param identity - Identity key, or `@handle` from the directory
+   * @param listName - Follow list (default 'default')
+   * @returns false if the list did not contain the identity
+   * @throws {NotFoundError} If an `@handle` is not in the directory
+   */
+  async unfollow(identity: string, listName = 'default'): Promise<boolean> {
+    return this.directory.unfollow(listName, await this.directory.resolve(identity));
+  }
+
+  /**
+   * The identities on a follow list, in the order they were followed, with
+   * their directory names and handles.
+   *
+   * @param listName - Follow list (default 'default')
+   */
+  async listFollowing(listName = 'default'): Promise<DirectoryEntry[]> {
+    const keys = await this.directory.following(listName);
+    return Promise.all(keys.map(key => this.directory.get(key)));
+  }
+
+  /**
+   * Entries of everyone on a follow list, merged in chronological order
+   * (reverse with `sortOrder: 'desc'`) and named from the directory.
+   * Reads the days as listRange() does, with `controllers` set to the list.
+   *
+   * @param days - A day (YYYY-MM-DD), or an inclusive range of days
+   * @param listName - Follow list (default 'default')
+   * @param options - Filters and pagination (see RangeOptions)
+   */
+  async feed(
+    days: string | { from: string; to: string },
+    listName = 'default',
+    options: FeedOptions = {}
+  ): Promise<FeedEntry[]> {
+    const { from, to } = typeof days === 'string' ? { from: days, to: days } : days;
+    const controllers = await this.directory.following(listName);
+    if (controllers.length === 0) return [];
 
-    return limited;
+    const authors = new Map<string, DirectoryEntry>();
+    for (const key of controllers) {
+      authors.set(key, await this.directory.get(key));
+    }
+    const entries = await this.listRange(from, to, { ...options, controllers });
+    return entries.map(entry => {
+      const author = authors.get(entry.controller!) ?? { identityKey: entry.controller! };
+      const named: FeedEntry = { ...entry, displayName: displayName(author) };
+      if (author.handle) named.handle = author.handle;
+      return named;
+    });
   }
 
   /**
    * List today's log entries from all users (local "today").
+   * Pass `timeZone` to read another time zone's "today".
+   */
+  async listToday(options: TodayOptions = {}): Promise<LogEntry[]> {
+    const { timeZone, ...query } = options;
+    const today = this.getLocalDate(this.clock(), timeZone ?? this.timeZone);
+    return this.listDay(today, query);
+  }
+
+  /**
+   * Follow new log entries from all users as they are published.
+   * Polls the current local day, rolling over to the next day key at
+   * midnight. Iterate the returned watcher with `for await` and persist
+   * `watcher.cursor` to resume after a restart without replaying entries.
+   *
+   * @param options - Filters, polling interval, backoff and resume cursor
+   */
+  watch(options: WatchOptions = {}): GlossWatcher {
+    return new GlossWatcher({
+      listDay: (date, queryOptions) => this.listDay(date, queryOptions),
+      today: () => this.getLocalDate(this.clock())
+    }, options);
+  }
+
+  /**
+   * Reply to another entry, possibly another controller's.
+   * The reply is a new entry in the caller's own lineage for today that
+   * records the parent's key and controller.
+   *
+   * @param parentKey - Key of the entry being replied to
+   * @param parentController - Identity key of the parent's controller
+   * @param text - The reply text
+   * @param options - Optional configuration for the reply
+   * @returns The reply
+   * @throws {NotFoundError} If the parent was not found or is not readable
+   */
+  async reply(
+    parentKey: string,
+    parentController: string,
+    text: string,
+    options: CreateLogOptions = {}
+  ): Promise<LogEntry> {
+    const parentDay = parentKey.split('/')[0];
+    const candidates = await this.listDay(parentDay, { controller: parentController });
+    if (!candidates.some(log => log.key === parentKey)) {
+      throw new NotFoundError(`No entry ${parentKey} of ${parentController} to reply to`);
+    }
+
+    return this.log(text, { ...options, parent: { key: parentKey, controller: parentController } });
+  }
+
+  /**
+   * Gather a conversation: the root entry and every reply to it, or to one
+   * of its replies, from any controller. Replies are looked for from the
+   * root's day up to `to` (default today), at most `maxDays` days.
+   *
+   * @param rootKey - Key of the entry that started the conversation
+   * @param rootController - Identity key of the root's controller
+   * @param options - Search window and read options
+   * @returns The thread tree with replies ordered by `at`, or undefined if the root was not found
    */
-  async listToday(options: QueryOptions = {}): Promise<LogEntry[]> {
-    const today = this.getLocalDate(new Date());
-    return this.listDay(today, options);
+  async getThread(rootKey: string, rootController: string, options: ThreadOptions = {}): Promise<ThreadNode | undefined> {
+    const rootDay = rootKey.split('/')[0];
+    const maxDays = Math.max(1, options.maxDays ?? 30);
+    const windowEnd = this.addDays(rootDay, maxDays - 1);
+    let to = options.to ?? this.getLocalDate(this.clock());
+    if (to > windowEnd) to = windowEnd;
+    if (to < rootDay) to = rootDay;
+
+    const readOptions: RangeOptions = {
+      unreadable: options.unreadable,
+      requireVerified: options.requireVerified,
+      pageSize: options.pageSize,
+      maxPages: options.maxPages,
+      concurrency: options.concurrency
+    };
+
+    let root: LogEntry | undefined;
+    const children = new Map<string, LogEntry[]>();
+    for await (const log of this.iterate(rootDay, to, readOptions)) {
+      if (log.key === rootKey && log.controller === rootController) {
+        root = log;
+      }
+      if (log.parent) {
+        const parentIdentity = this.entryIdentity(log.parent);
+        const siblings = children.get(parentIdentity) ?? [];
+        siblings.push(log);
+        children.set(parentIdentity, siblings);
+      }
+    }
+    if (!root) return undefined;
+
+    const visited = new Set<string>();
+    const build = (entry: LogEntry): ThreadNode => {
+      visited.add(this.entryIdentity(entry));
+      const replies = (children.get(this.entryIdentity(entry)) ?? [])
+        .filter(reply => !visited.has(this.entryIdentity(reply)))
+        .sort((a, b) => a.at.localeCompare(b.at) || a.key.localeCompare(b.key));
+      return { entry, replies: replies.map(build) };
+    };
+    return build(root);
   }
 
   /**
    * Remove a specific log entry by its full key.
-   * Note: In the new architecture, each log is its own token.
-   * To "remove" a specific entry, we need to spend the day token without including that entry.
-   * This is complex, so for now this removes the entire day's token.
-   * For granular removal, consider using updateEntryByKey to mark as deleted.
+   * Appends a tombstone revision (same logical key, marked deleted) to the
+   * caller's day lineage. listDay() hides the entry from then on, while
+   * getLogHistory() still returns the tombstone and earlier revisions.
    *
    * @param logKey - Full log key (e.g., "2025-10-07/143022-456abcd")
-   * @returns true if removed; false if not found or not owned
-   * @deprecated Consider using removeDay() or marking entries as deleted instead
+   * @param options - Optional reason recorded on the tombstone, which the
+   *   content policy checks like entry text
+   * @returns true if removed; false if it was already deleted
+   * @throws {NotFoundError} If there is no such entry
+   * @throws {NotOwnerError} If the entry belongs to another controller
+   * @throws {PolicyViolationError} If the policy refuses the reason
    */
-  async removeEntry(logKey: string): Promise<boolean> {
-    // In single-entry architecture, we would need to:
-    // 1. Find the specific token containing this log
-    // 2. Spend it to remove it
-    // This requires token-level removal which isn't straightforward with the current key structure
-    // For now, remove the entire day
-    const datePart = logKey.split('/')[0];
-    return this.removeDay(datePart);
+  async removeEntry(logKey: string, options: RemoveEntryOptions = {}): Promise<boolean> {
+    return this.middleware.guard('removeEntry', async () => {
+      const identityKey = await this.ensureIdentityKey();
+      const datePart = logKey.split('/')[0];
+
+      const { entry: current, lineageKey } = await this.findOwnEntry(logKey, identityKey, true);
+      if (current.deleted) return false;
+
+      // A private entry's tags are secret, so its tombstone carries none.
+      const built: LogEntry = {
+        key: logKey,
+        at: this.clock().toISOString(),
+        text: '',
+        tags: current.encrypted ? [] : current.tags ?? [],
+        assets: [],
+        controller: identityKey,
+        deleted: true
+      };
+      if (options.reason) {
+        built.deleteReason = options.reason;
+      }
+      // Keeps a retried log() from writing the removed entry again.
+      if (current.idempotencyKey) {
+        built.idempotencyKey = current.idempotencyKey;
+      }
+      const context: WriteContext = { operation: 'remove', day: datePart };
+      // Only the reason is new: the tags were published with the entry.
+      const tombstone = this.checkContent(await this.prepareWrite(built, context), options.allowSecrets, current.tags);
+
+      const serialized = await this.toStoredString(JSON.stringify(tombstone));
+      const tags = [...this.publicTags(tombstone), datePart];
+      const txid = await this.writeDay(datePart, serialized, tags, lineageKey);
+      await this.middleware.afterWrite([tombstone], { ...context, txid });
+
+      return true;
+    });
   }
 
   /**
-   * Remove an entire day's logs (all your logs for a specific date).
+   * Remove an entire day's logs (all your logs for a specific date), from
+   * the shared day lineage and every device lineage.
    *
    * @param date - Date in YYYY-MM-DD format
-   * @returns true if any were removed
+   * @returns true if removed; false if you had no lineage for the day
+   * @throws {InvalidEntryError} If the date is not a valid YYYY-MM-DD date
    */
   async removeDay(date: string): Promise<boolean> {
+    this.parseDate(date);
+    const controller = await this.ensureIdentityKey();
     try {
-      await this.kv.remove(this.dayKey(date));
-      return true;
-    } catch {
-      return false;
+      const devices = await this.queryPages(this.deviceQuery(date, { controller }), {}, undefined, { pages: Infinity });
+      const keys = [this.dayKey(date), ...this.deviceRows(date, devices.rows, {}).map(row => row.key as string)];
+
+      let removed = false;
+      for (const key of keys) {
+        try {
+          await this.storeCall(() => this.kv.remove(key, { controller }));
+          removed = true;
+        } catch (error) {
+          if (!(error instanceof NotFoundError)) throw error;
+        }
+      }
+      return removed;
+    } finally {
+      await this.cache?.invalidate(date, controller);
     }
   }
 
@@ -263,74 +885,248 @@ export class GlossClient {
    * @param logKey - Full log key (e.g., "2025-10-07/143022-456abcd")
    * @param newText - New text for the log entry
    * @param options - Optional configuration for the updated entry
-   * @returns The updated log entry, or undefined if not found/owned
+   * @returns The updated log entry
+   * @throws {NotFoundError} If there is no such entry, or it was deleted
+   * @throws {NotOwnerError} If the entry belongs to another controller
    */
   async updateEntryByKey(
     logKey: string,
     newText: string,
-    options: CreateLogOptions = {}
-  ): Promise<LogEntry | undefined> {
-    const identityKey = await this.ensureIdentityKey();
-    const datePart = logKey.split('/')[0];
-
-    // First, verify the log exists and we own it
-    const existing = await this.listDay(datePart, { controller: identityKey });
-    const current = existing.find(log => log.key === logKey);
-
-    if (!current) return undefined;
-
-    // Create updated entry with same key
-    const updated: LogEntry = {
-      key: logKey,
-      at: new Date().toISOString(),
-      text: newText,
-      tags: options.tags ?? current.tags ?? [],
-      assets: options.assets ?? current.assets ?? [],
-      controller: identityKey
-    };
+    options: Omit<CreateLogOptions, 'key' | 'idempotencyKey'> = {}
+  ): Promise<LogEntry> {
+    return this.middleware.guard('updateEntryByKey', async () => {
+      validateStructured(options);
+      const identityKey = await this.ensureIdentityKey();
+      const datePart = logKey.split('/')[0];
+
+      // First, verify the log exists and we own it
+      const { entry: current, lineageKey } = await this.findOwnEntry(logKey, identityKey, false);
 
-    // Store the updated entry (spends the previous token via the day key)
-    const serialized = JSON.stringify(updated);
-    const tags = [...(updated.tags ?? []), datePart];
-    await this.kv.set(this.dayKey(datePart), serialized, { tags });
+      // Create updated entry with same key
+      const built: LogEntry = {
+        key: logKey,
+        at: this.clock().toISOString(),
+        text: newText,
+        tags: options.tags ?? current.tags ?? [],
+        assets: (options.assets ?? current.assets ?? []).map(toDescriptor),
+        controller: identityKey
+      };
+      this.applyStructured(built, {
+        level: options.level ?? current.level,
+        fields: options.fields ?? current.fields,
+        context: options.context ?? current.context
+      });
+      // An edited reply stays in its conversation, and a retried log() still finds it.
+      if (current.parent) built.parent = { ...current.parent };
+      if (current.idempotencyKey) built.idempotencyKey = current.idempotencyKey;
+      // A private entry stays private unless new recipients are given.
+      this.applyRecipients(built, options.recipients ?? current.recipients);
+      const context: WriteContext = { operation: 'update', day: datePart };
+      const updated = this.checkContent(await this.prepareWrite(built, context), options.allowSecrets, current.tags);
 
-    return updated;
+      // Store the updated entry in the lineage holding it (spends its previous token)
+      const serialized = await this.toStoredString(JSON.stringify(updated));
+      const tags = [...this.publicTags(updated), datePart];
+      const txid = await this.writeDay(datePart, serialized, tags, lineageKey);
+      await this.middleware.afterWrite([updated], { ...context, txid });
+
+      return updated;
+    });
   }
 
   /**
    * Get the full history of a specific log entry (current + historical versions).
    * Sorted by `at` descending; falls back to key order if needed.
+   * Keys are only unique per controller: pass `controller` to get one
+   * controller's entry, or revisions of every entry with the key are returned.
    *
    * @param logKey - Full log key (e.g., "2025-10-07/143022-456abcd")
-   * @param options - Optional query configuration (only includeTxid is used)
+   * @param options - Optional query configuration (controller, includeTxid, unreadable, requireVerified and strict are used)
+   * @throws {InvalidEntryError} If the key does not start with a valid YYYY-MM-DD date
    */
-  async getLogHistory(logKey: string, options: Pick<QueryOptions, 'includeTxid'> = {}): Promise<LogEntry[]> {
+  async getLogHistory(
+    logKey: string,
+    options: Pick<QueryOptions, 'controller' | 'includeTxid' | 'unreadable' | 'requireVerified' | 'strict'> = {}
+  ): Promise<LogEntry[]> {
     const day = logKey.split('/')[0];
-    const dayKey = this.dayKey(day);
+    const wanted = options.controller === undefined ? undefined : this.entryIdentity({ key: logKey, controller: options.controller });
+    return this.middleware.guard('getLogHistory', () => {
+      this.parseDate(day);
+      return this.dayHistory(day, options, log =>
+        wanted === undefined ? log.key === logKey : this.entryIdentity(log) === wanted);
+    });
+  }
 
-    const getOptions: any = { history: true };
-    if (options.includeTxid) {
-      getOptions.includeToken = true;
+  /**
+   * Export the entries of an inclusive date range.
+   * NDJSON is lossless: it includes tombstones, txids, private entries the
+   * caller can read (decrypted) or cannot (redacted), and every entry's
+   * earlier revisions. The other formats list the current entries only; the
+   * feeds are newest first unless `sortOrder` is given.
+   *
+   * @param from - First day, YYYY-MM-DD
+   * @param to - Last day, YYYY-MM-DD
+   * @param format - 'ndjson', 'markdown', 'atom' or 'json-feed'
+   * @param options - Range filters and document metadata
+   * @returns The exported document
+   */
+  async exportEntries(from: string, to: string, format: ExportFormat, options: ExportOptions = {}): Promise<string> {
+    const { title, feedUrl, homePageUrl, ...query } = options;
+
+    if (format === 'ndjson') {
+      const readOptions: RangeOptions = {
+        ...query,
+        includeDeleted: true,
+        includeTxid: true,
+        unreadable: query.unreadable ?? 'redact',
+        sortOrder: query.sortOrder ?? 'asc'
+      };
+      const entries = await this.listRange(from, to, readOptions);
+
+      // One history read per day covers every entry listed for it.
+      const histories = new Map<string, LogEntry[]>();
+      for (const day of [...new Set(entries.map(entry => entry.key.slice(0, 10)))]) {
+        for (const revision of await this.dayHistory(day, readOptions)) {
+          const identity = this.entryIdentity(revision);
+          histories.set(identity, [...(histories.get(identity) ?? []), revision]);
+        }
+      }
+
+      return toNdjson(entries.map(entry => {
+        const history = histories.get(this.entryIdentity(entry)) ?? [];
+        // The history includes the listed revision itself, newest first.
+        const revisions = history[0]?.at === entry.at ? history.slice(1) : history;
+        return revisions.length > 0 ? { ...entry, revisions } : { ...entry };
+      }));
     }
 
-    const result = await this.kv.get({ key: dayKey }, getOptions);
+    if (format === 'markdown') {
+      const entries = await this.listRange(from, to, { ...query, sortOrder: query.sortOrder ?? 'asc' });
+      return toMarkdown(entries, title ?? (from === to ? `Gloss digest for ${from}` : `Gloss digest for ${from} to ${to}`));
+    }
 
-    const rows = Array.isArray(result) ? result : result ? [result] : [];
-    const history: LogEntry[] = [];
+    if (format === 'atom' || format === 'json-feed') {
+      const entries = (await this.listRange(from, to, { ...query, sortOrder: query.sortOrder ?? 'desc' }))
+        .filter(entry => !entry.redacted);
+      const subject = query.controller ?? (query.tags && query.tags.length > 0 ? query.tags.map(tag => `#${tag}`).join(' ') : 'all');
+      const meta = {
+        title: title ?? `Gloss: ${subject}`,
+        id: feedUrl ?? `urn:gloss:feed:${encodeURIComponent(subject)}`,
+        updated: this.clock().toISOString(),
+        feedUrl,
+        homePageUrl
+      };
+      return format === 'atom' ? toAtom(entries, meta) : toJsonFeed(entries, meta);
+    }
+
+    throw new InvalidEntryError(`Unknown export format: ${String(format)}`);
+  }
+
+  /**
+   * Replay an NDJSON export into the caller's own day lineages.
+   * Every entry keeps its original key and timestamp; earlier revisions are
+   * written first so the history is preserved. Entries become the caller's:
+   * they are signed by the caller and private entries are re-encrypted for
+   * their recipients. Revisions not newer than the caller's current copy are
+   * skipped, so importing the same file twice writes nothing the second time.
+   * Redacted entries (exported without being readable) cannot be restored.
+   * Every revision is checked against the content policy, like a new entry.
+   *
+   * @param ndjson - Output of exportEntries(..., 'ndjson')
+   * @param options - allowSecrets, as for log()
+   * @returns Counts of what was written and skipped
+   * @throws {InvalidEntryError} If the input is malformed; nothing is written then
+   * @throws {PolicyViolationError} If the policy refuses a revision; nothing is written then
+   */
+  async importEntries(ndjson: string, options: ImportOptions = {}): Promise<ImportResult> {
+    return this.middleware.guard('importEntries', async () => {
+      const records = parseNdjson(ndjson);
+      for (const record of records) {
+        for (const version of [record, ...(record.revisions ?? [])]) {
+          validateStructured(version);
+          this.validateParent(version.parent);
+          if (!version.redacted) this.checkContent({ ...version, key: record.key, tags: version.tags ?? [] }, options.allowSecrets);
+        }
+      }
+
+      const identityKey = await this.ensureIdentityKey();
+      const result: ImportResult = { imported: 0, revisions: 0, skipped: [] };
+      const latestByDay = new Map<string, Map<string, string>>();
+
+      for (const record of records) {
+        const day = record.key.slice(0, 10);
+        let latest = latestByDay.get(day);
+        if (!latest) {
+          const ownOptions: QueryOptions = { controller: identityKey, includeDeleted: true, unreadable: 'redact' };
+          const own = (await this.readDay(day, ownOptions, true)).entries;
+          latest = new Map(own.map(entry => [entry.key, entry.at]));
+          latestByDay.set(day, latest);
+        }
+
+        // Oldest first, ending with the exported current revision.
+        const versions = [...(record.revisions ?? [])].reverse().concat(record);
+        let written = false;
+        for (const version of versions) {
+          if (version.redacted) {
+            result.skipped.push({ key: record.key, reason: 'redacted: the exporter could not read this revision' });
+            continue;
+          }
+          const current = latest.get(record.key);
+          if (current !== undefined && version.at <= current) {
+            continue;
+          }
+
+          const built: LogEntry = {
+            key: record.key,
+            at: version.at,
+            text: version.text,
+            tags: [...(version.tags ?? [])],
+            assets: (version.assets ?? []).map(toDescriptor),
+            controller: identityKey
+          };
+          if (version.deleted) {
+            built.deleted = true;
+            if (version.deleteReason) built.deleteReason = version.deleteReason;
+          }
+          this.applyStructured(built, version);
+          if (version.parent) built.parent = { ...version.parent };
+          if (version.idempotencyKey) built.idempotencyKey = version.idempotencyKey;
+          this.applyRecipients(built, version.encrypted ? version.recipients : undefined);
+          const entry = this.checkContent(await this.prepareWrite(built, { operation: 'import', day }), options.allowSecrets);
+
+          await this.append(day, [entry], false, this.clock(), 'import');
+          latest.set(record.key, version.at);
+          result.revisions++;
+          written = true;
+        }
+        if (written) result.imported++;
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Every readable revision of the entries held in a day's lineages, newest
+   * first, optionally only those matching `keep`.
+   */
+  private async dayHistory(
+    day: string,
+    options: Pick<QueryOptions, 'controller' | 'includeTxid' | 'unreadable' | 'requireVerified' | 'strict'>,
+    keep: (log: LogEntry) => boolean = () => true
+  ): Promise<LogEntry[]> {
+    const rows = await this.fetchDayRows(day, { controller: options.controller, includeTxid: options.includeTxid }, { pages: Infinity });
+    const revisions: Array<{ log: LogEntry; txid?: string }> = [];
     const seenValues = new Set<string>();
 
     const ingest = (value: string | undefined, controller?: string, txid?: string) => {
       if (!value) return;
-      const log = this.parseLogEntry(value, controller);
-      if (!log) return;
-      if (log.key !== logKey) return;
       if (seenValues.has(value)) return;
 
-      const clonedLog = this.cloneLog(log);
-      if (options.includeTxid && txid) {
-        clonedLog.txid = txid;
+      for (const log of this.parseLogEntries(value, controller, { strict: options.strict })) {
+        if (!keep(log)) continue;
+        revisions.push({ log, txid });
       }
-      history.push(clonedLog);
       seenValues.add(value);
     };
 
@@ -348,20 +1144,34 @@ export class GlossClient {
       }
     }
 
-    history.sort((a, b) => {
+    const history: LogEntry[] = [];
+    const opened = await Promise.all(revisions.map(({ log }) => this.openLog(log, options)));
+    opened.forEach((log, i) => {
+      if (!log) return;
+      const clonedLog = this.cloneLog(log);
+      if (options.includeTxid && revisions[i].txid) {
+        clonedLog.txid = revisions[i].txid;
+      }
+      history.push(clonedLog);
+    });
+
+    history.sort((a, b) => {
       const atA = a.at ?? '';
       const atB = b.at ?? '';
       if (atA && atB) return atA > atB ? -1 : atA < atB ? 1 : 0;
       return a.key > b.key ? -1 : a.key < b.key ? 1 : 0;
     });
 
-    return history;
+    return this.middleware.afterRead(history, { operation: 'history', day });
   }
 
   /**
-   * Upload an asset to UHRP storage and get the URL.
+   * Upload an asset to UHRP storage and describe it.
+   * Transient failures are retried under the `retry` policy.
    *
    * retentionMinutes are minutes (default 30 days).
+   *
+   * @throws {UploadFailedError} If the storage service rejected or could not take the upload
    */
   async uploadAsset(
     data: Uint8Array,
@@ -373,14 +1183,21 @@ export class GlossClient {
       wallet: this.config.wallet
     } as any);
 
-    const res: any = await uploader.publishFile({
-      file: { data, type: mimeType },
-      retentionPeriod: options.retentionMinutes ?? 60 * 24 * 30 // minutes; 30 days default
-    } as any);
+    const retentionMinutes = options.retentionMinutes ?? 60 * 24 * 30; // minutes; 30 days default
+    const res: any = await withRetry(
+      () => uploader.publishFile({
+        file: { data, type: mimeType },
+        retentionPeriod: retentionMinutes
+      } as any),
+      error => toGlossError(error, UploadFailedError),
+      this.retry
+    );
 
+    const uhrpURL = String(res.uhrpURL ?? res.url);
     return {
-      uhrpURL: String(res.uhrpURL ?? res.url),
-      published: Boolean(res.published ?? true)
+      uhrpURL,
+      published: Boolean(res.published ?? true),
+      asset: describeUpload(data, uhrpURL, mimeType, retentionMinutes, this.clock(), options.filename)
     };
   }
 
@@ -393,12 +1210,817 @@ export class GlossClient {
     mimeType: string,
     options: CreateLogOptions & UploadOptions = {}
   ): Promise<LogEntry> {
-    const uploadResult = await this.uploadAsset(data, mimeType, options);
+    return this.middleware.guard('logWithAsset', async () => {
+      // Refuse content the policy would reject, or a write already made,
+      // before paying for the upload.
+      this.checkContent({ key: '', at: '', text, tags: options.tags ?? [], fields: options.fields }, options.allowSecrets);
+      if (options.key || options.idempotencyKey) {
+        const day = this.getLocalDate(this.clock());
+        this.validateWriteKeys(options, day);
+        const [logged] = await this.findLogged(day, await this.ensureIdentityKey(), [options]);
+        if (logged) return logged;
+      }
+      const uploadResult = await this.uploadAsset(data, mimeType, options);
+
+      return this.log(text, {
+        ...options,
+        assets: [...(options.assets ?? []), uploadResult.asset]
+      });
+    });
+  }
+
+  /**
+   * Download an asset and check its integrity.
+   * A UHRP URL is resolved to the hosts serving it, which are tried in turn;
+   * content whose SHA-256 does not match the hash the UHRP URL commits to (or
+   * the descriptor's `hash`, for plain HTTP URLs) is rejected.
+   *
+   * @param asset - A descriptor from `LogEntry.assets`, or a URL
+   * @param options - Set `verify: false` to skip the hash check
+   * @returns The content and where it came from
+   * @throws {NotFoundError} If no host serves the asset
+   * @throws {InvalidEntryError} If every host returned content with the wrong hash
+   * @throws {OverlayUnavailableError} If no host returned matching content and some could not be reached
+   */
+  async downloadAsset(asset: string | AssetDescriptor, options: DownloadOptions = {}): Promise<DownloadResult> {
+    const descriptor = toDescriptor(asset);
+    const expected = options.verify === false ? undefined : expectedHash(descriptor);
+    let sources: string[];
+    try {
+      sources = isUhrpURL(descriptor.url) ? await this.resolveAsset(descriptor.url) : [descriptor.url];
+    } catch (error) {
+      throw toGlossError(error, OverlayUnavailableError);
+    }
+    if (sources.length === 0) {
+      throw new NotFoundError(`No host found for ${descriptor.url}`);
+    }
+
+    const failures: string[] = [];
+    // Tampered content will not change; an unreachable host might come back.
+    let transient = false;
+    for (const source of sources) {
+      try {
+        const response = await this.fetch(source);
+        if (!response.ok) {
+          failures.push(`${source}: HTTP ${response.status}`);
+          transient = true;
+          continue;
+        }
+        const data = new Uint8Array(await response.arrayBuffer());
+        const hash = sha256Hex(data);
+        if (expected && hash !== expected) {
+          failures.push(`${source}: content hash ${hash} does not match ${expected}`);
+          continue;
+        }
+        return {
+          data,
+          mimeType: response.headers.get('content-type') ?? descriptor.mimeType,
+          source,
+          hash,
+          verified: expected !== undefined
+        };
+      } catch (error: any) {
+        failures.push(`${source}: ${error?.message ?? error}`);
+        transient = true;
+      }
+    }
+
+    const message = `Could not download ${descriptor.url}: ${failures.join('; ')}`;
+    throw transient ? new OverlayUnavailableError(message) : new InvalidEntryError(message);
+  }
+
+  /**
+   * Fetch the store rows (one per controller lineage) for a day key.
+   * When `pageSize` is set the rows are read in pages of that size. Every
+   * page read consumes one unit of the shared page budget. With a cache
+   * configured, rows come from the cache where possible.
+   */
+  private async fetchDayRows(date: string, options: QueryOptions, budget: { pages: number }): Promise<any[]> {
+    const { controllers } = options;
+    if (controllers) {
+      // Each controller is read on its own, so nobody else's lineages are
+      // fetched; up to `concurrency` of them at once.
+      const wanted = [...new Set(controllers)].filter(controller => !options.controller || controller === options.controller);
+      const concurrency = Math.max(1, (options as RangeOptions).concurrency ?? 4);
+      const rows: any[] = [];
+      for (let i = 0; i < wanted.length; i += concurrency) {
+        const fetched = await Promise.all(wanted.slice(i, i + concurrency).map(controller =>
+          this.fetchDayRows(date, { ...options, controller, controllers: undefined }, budget)));
+        rows.push(...fetched.flat());
+      }
+      return rows;
+    }
+
+    if (this.cache) {
+      return (await this.fetchCachedDayRows(this.cache, date, options, budget, false)).rows;
+    }
+
+    const getOptions: any = { history: true };
+    if (options.includeTxid) {
+      getOptions.includeToken = true;
+    }
+
+    return (await this.queryDayLineages(date, options, getOptions, budget)).rows;
+  }
+
+  /**
+   * Read a day's shared lineages and its device lineages: two store queries.
+   * Both get the remaining page budget, so a page of each counts as one page
+   * and a budget that covers the shared lineages never leaves the device
+   * lineages out.
+   */
+  private async queryDayLineages(
+    date: string,
+    options: QueryOptions,
+    getOptions: any,
+    budget: { pages: number }
+  ): Promise<{ rows: any[]; complete: boolean }> {
+    const deviceBudget = { pages: budget.pages };
+    const shared = await this.queryPages(this.dayQuery(date, options), getOptions, options.pageSize, budget);
+    const devices = await this.queryPages(this.deviceQuery(date, options), getOptions, options.pageSize, deviceBudget);
+    budget.pages = Math.min(budget.pages, deviceBudget.pages);
+    return {
+      rows: [...shared.rows, ...this.deviceRows(date, devices.rows, options)],
+      complete: shared.complete && devices.complete
+    };
+  }
+
+  /**
+   * Serve a day's rows from the cache, checking the store for changed tips
+   * once the day's TTL has expired (or always, when `force` is set).
+   * A tip check reads only current values; the full history is refetched
+   * just for lineages whose tip txid changed.
+   */
+  private async fetchCachedDayRows(
+    cache: GlossCache,
+    date: string,
+    options: QueryOptions,
+    budget: { pages: number },
+    force: boolean
+  ): Promise<{ rows: any[]; fetched: number }> {
+    const now = this.clock().getTime();
+    const ttl = date < this.getLocalDate(this.clock()) ? cache.pastDayTtlMs : cache.ttlMs;
+    const cached = await cache.lineagesFor(date, options.controller);
+
+    if (!force) {
+      const checkedAt = await cache.dayCheckedAt(date);
+      const dayFresh = checkedAt !== undefined && now - checkedAt < ttl;
+      const controllerFresh = options.controller !== undefined && cached.length > 0 && now - cached[0].fetchedAt < ttl;
+      if (dayFresh || controllerFresh) {
+        const rows = cached
+          .filter(lineage => this.matchesStoreTags(lineage.tags ?? [], options))
+          .map(lineage => this.lineageRow(lineage));
+        return { rows, fetched: 0 };
+      }
+    }
+
+    const { rows: tips, complete } = await this.queryDayLineages(date, options, { includeToken: true }, budget);
+    const lineageId = (controller: string, key?: string) => `${controller}\u0000${key ?? this.dayKey(date)}`;
+    const known = new Map(cached.map(lineage => [lineageId(lineage.controller, lineage.key), lineage]));
+    const current: CachedLineage[] = [];
+    let fetched = 0;
+
+    for (const tip of tips) {
+      if (typeof tip?.controller !== 'string') continue;
+      const key: string = tip.key ?? this.dayKey(date);
+      const previous = known.get(lineageId(tip.controller, key));
+      const txid: string | undefined = tip.token?.txid;
+      if (previous && txid && previous.txid === txid) {
+        current.push({ ...previous, fetchedAt: now });
+        continue;
+      }
+
+      const [full] = await this.storeCall(() => this.kv.get(
+        { key, controller: tip.controller },
+        { history: true, includeToken: true }
+      ));
+      if (!full) continue;
+      fetched++;
+      const lineage: CachedLineage = {
+        day: date,
+        controller: full.controller,
+        value: full.value,
+        history: Array.isArray(full.history) ? full.history : [full.value],
+        tags: full.tags,
+        txid: full.token?.txid,
+        fetchedAt: now
+      };
+      if (key !== this.dayKey(date)) lineage.key = key;
+      current.push(lineage);
+    }
+
+    // Only a complete, unfiltered check shows which lineages are gone.
+    const unfiltered = !options.tags || options.tags.length === 0;
+    const present = new Set(current.map(lineage => lineageId(lineage.controller, lineage.key)));
+    const removed = complete && unfiltered
+      ? cached.filter(lineage => !present.has(lineageId(lineage.controller, lineage.key)))
+      : [];
+    const dayChecked = complete && unfiltered && !options.controller ? now : undefined;
+    await cache.update(date, current, removed, dayChecked);
+
+    return { rows: current.map(lineage => this.lineageRow(lineage)), fetched };
+  }
+
+  /**
+   * Read a query page by page while the shared page budget lasts.
+   * `complete` is false when the budget ran out before the last page.
+   */
+  private async queryPages(
+    query: any,
+    getOptions: any,
+    pageSize: number | undefined,
+    budget: { pages: number }
+  ): Promise<{ rows: any[]; complete: boolean }> {
+    const size = pageSize && pageSize > 0 ? pageSize : undefined;
+    const rows: any[] = [];
+
+    for (let page = 0; budget.pages > 0; page++) {
+      budget.pages--;
+      if (size) {
+        query.limit = size;
+        query.skip = page * size;
+      }
+
+      const result = await this.storeCall(() => this.kv.get(query, getOptions));
+      const pageRows = Array.isArray(result) ? result : result ? [result] : [];
+      rows.push(...pageRows);
+
+      if (!size || pageRows.length < size) return { rows, complete: true };
+    }
+
+    return { rows, complete: false };
+  }
+
+  /**
+   * Store query for a day key with the controller and tag filters applied.
+   */
+  private dayQuery(date: string, options: QueryOptions): any {
+    const query: any = { key: this.dayKey(date) };
+
+    if (options.controller) {
+      query.controller = options.controller;
+    }
+
+    if (options.tags && options.tags.length > 0) {
+      query.tags = options.tags;
+      if (options.tagQueryMode) {
+        query.tagQueryMode = options.tagQueryMode;
+      }
+    }
+
+    return query;
+  }
 
-    return this.log(text, {
-      ...options,
-      assets: [...(options.assets ?? []), uploadResult.uhrpURL]
+  /**
+   * Store query for the device lineages of a day, optionally of one
+   * controller. Tag filters are applied by deviceRows().
+   */
+  private deviceQuery(date: string, options: Pick<QueryOptions, 'controller'>): any {
+    const query: any = { tags: [this.devicesTag(date)] };
+    if (options.controller) {
+      query.controller = options.controller;
+    }
+    return query;
+  }
+
+  /**
+   * The rows of a device query that are device lineages of the day and match
+   * the tag filter the way the store would.
+   */
+  private deviceRows(date: string, rows: any[], options: QueryOptions): any[] {
+    const prefix = `${this.dayKey(date)}/`;
+    return rows.filter(row =>
+      typeof row?.key === 'string' && row.key.startsWith(prefix) && this.matchesStoreTags(row.tags ?? [], options));
+  }
+
+  /**
+   * The store's tag match on a lineage's tip tags ('all' unless 'any').
+   */
+  private matchesStoreTags(tags: string[], options: QueryOptions): boolean {
+    if (!options.tags || options.tags.length === 0) return true;
+    return options.tagQueryMode === 'any'
+      ? options.tags.some(tag => tags.includes(tag))
+      : options.tags.every(tag => tags.includes(tag));
+  }
+
+  /**
+   * A cached lineage in the shape of a store row. `cached` lets
+   * reconstructDay() reuse the lineage's decoded revisions.
+   */
+  private lineageRow(lineage: CachedLineage): any {
+    return {
+      key: lineage.key ?? this.dayKey(lineage.day),
+      controller: lineage.controller,
+      value: lineage.value,
+      history: lineage.history,
+      tags: lineage.tags,
+      token: lineage.txid ? { txid: lineage.txid } : undefined,
+      cached: lineage
+    };
+  }
+
+  /**
+   * The newest revision of each entry in a cached lineage with its signature
+   * checked: decoded once per tip, then reused from the cache.
+   */
+  private async decodedLineage(cache: GlossCache, lineage: CachedLineage): Promise<DecodedRevision[]> {
+    const known = cache.decodedRevisions(lineage);
+    if (known) return known;
+
+    const newest = new Map<string, { log: LogEntry; txid?: string }>();
+    // The tip first, then the history newest-first; the history repeats the tip.
+    const values = new Set([lineage.value, ...[...lineage.history].reverse()]);
+    for (const value of values) {
+      if (typeof value !== 'string') continue;
+      for (const log of this.parseLogEntries(value, lineage.controller).reverse()) {
+        if (!newest.has(log.key)) newest.set(log.key, { log, txid: value === lineage.value ? lineage.txid : undefined });
+      }
+    }
+    const revisions = await Promise.all([...newest.values()].map(async ({ log, txid }) =>
+      ({ log, txid, verification: await this.verifyLog(log) })));
+    cache.rememberDecoded(lineage, revisions);
+    return revisions;
+  }
+
+  /**
+   * Reconstruct the logical entries held in a day's lineage rows.
+   * Each logical entry (controller + key) is represented by its newest
+   * revision; signatures are verified and private entries decrypted where
+   * possible, then controller, tag, verification and tombstone filters are
+   * applied to that revision. The result is unsorted.
+   *
+   * Entries are attributed to the controller of the lineage they were read
+   * from; values naming another controller are rejected when decoded. Within
+   * a lineage later values are newer. When a controller's shared and device
+   * lineages both hold revisions of an entry, the later `at` wins.
+   *
+   * Cached lineages are decoded once per tip and reused, unless the read is
+   * strict or collects diagnostics.
+   */
+  private async reconstructDay(rows: any[], options: QueryOptions, diagnostics?: EntryDiagnostic[]): Promise<LogEntry[]> {
+    const revisions = new Map<string, { log: LogEntry; txid?: string; lineage: string; verification?: VerificationStatus }>();
+    const seenValues = new Set<string>(); // History repeats the tip value
+    const context: DecodeContext = {
+      strict: options.strict,
+      report: diagnostic => diagnostics?.push(diagnostic)
+    };
+
+    const keep = (log: LogEntry, lineage: string, controller?: string, txid?: string, verification?: VerificationStatus) => {
+      const entryIdentity = `${controller ?? ''}\u0000${log.key}`;
+      const seen = revisions.get(entryIdentity);
+      if (seen && (seen.lineage === lineage || seen.log.at >= log.at)) return;
+      revisions.set(entryIdentity, { log, txid, lineage, verification });
+    };
+
+    const ingest = (value: string, lineage: string, controller?: string, txid?: string) => {
+      const valueIdentity = `${controller ?? ''}\u0000${value}`;
+      if (seenValues.has(valueIdentity)) return;
+      seenValues.add(valueIdentity);
+
+      // Later entries in one value are newer, so they are visited first.
+      for (const log of this.parseLogEntries(value, controller, context).reverse()) {
+        keep(log, lineage, controller, txid);
+      }
+    };
+
+    // Process current and historical entries
+    for (const record of rows) {
+      const lineage = `${record?.controller ?? ''}\u0000${record?.key ?? ''}`;
+      if (this.cache && record?.cached && !options.strict && !diagnostics) {
+        for (const revision of await this.decodedLineage(this.cache, record.cached)) {
+          keep(revision.log, lineage, record.controller, revision.txid, revision.verification);
+        }
+        continue;
+      }
+      if (typeof record?.value === 'string') {
+        ingest(record.value, lineage, record.controller, record.token?.txid);
+      }
+
+      // Process historical entries newest-first so an updated logical entry
+      // wins over its older revisions. Historian returns oldest-first.
+      if (Array.isArray(record?.history)) {
+        for (const pastValue of [...record.history].reverse()) {
+          if (typeof pastValue !== 'string') continue;
+
+          // GlobalKVStore history currently contains values without
+          // per-transaction metadata. Do not attach the current lineage
+          // tip's txid to a historical value: that txid belongs only to
+          // record.value and would falsely make every historical entry look
+          // like the same transaction.
+          ingest(pastValue, lineage, record.controller);
+        }
+      }
+    }
+
+    // A tombstone hides every older revision of the same entry.
+    const newest = [...revisions.values()].filter(({ log }) =>
+      (!log.deleted || options.includeDeleted) &&
+      (!options.controller || log.controller === options.controller) &&
+      (!options.controllers || options.controllers.includes(log.controller!)));
+
+    const tagSet = options.tags && options.tags.length > 0 ? new Set(options.tags) : undefined;
+    const opened = await Promise.all(newest.map(({ log, verification }) => this.openLog(log, options, verification)));
+    const logs: LogEntry[] = [];
+
+    opened.forEach((log, i) => {
+      if (!log) return;
+      if (tagSet && !this.matchesTagFilter(log.tags ?? [], tagSet, options.tagQueryMode)) return;
+      if (options.minLevel && levelRank(log.level) < levelRank(options.minLevel)) return;
+      if (options.fields && !this.matchesFieldFilter(log.fields, options.fields)) return;
+
+      const clonedLog = this.cloneLog(log);
+      if (options.includeTxid && newest[i].txid) {
+        clonedLog.txid = newest[i].txid;
+      }
+      logs.push(clonedLog);
     });
+
+    return logs;
+  }
+
+  /**
+   * Copy the structured parts of log options onto an entry. Only parts that
+   * are given are stored.
+   */
+  private applyStructured(entry: LogEntry, options: Pick<CreateLogOptions, 'level' | 'fields' | 'context'>): void {
+    if (options.level) entry.level = options.level;
+    if (options.fields) entry.fields = { ...options.fields };
+    if (options.context) entry.context = { ...options.context };
+  }
+
+  /**
+   * Check a parent reference before it is written.
+   *
+   * @throws {InvalidEntryError} If the key or controller is malformed
+   */
+  private validateParent(parent: EntryRef | undefined): void {
+    if (!parent) return;
+    if (typeof parent.key !== 'string' || !/^\d{4}-\d{2}-\d{2}\/./.test(parent.key)) {
+      throw new InvalidEntryError(`Invalid parent key: ${String(parent.key)}`);
+    }
+    if (typeof parent.controller !== 'string' || !parent.controller) {
+      throw new InvalidEntryError('A parent reference needs the parent controller');
+    }
+  }
+
+  /**
+   * Check a caller-supplied entry key and idempotency key. An explicit key
+   * must be for the day the entry is written to.
+   *
+   * @throws {InvalidEntryError} If either is malformed, or the key is for another day
+   */
+  private validateWriteKeys(options: Pick<CreateLogOptions, 'key' | 'idempotencyKey'>, day: string): void {
+    const { key, idempotencyKey } = options;
+    if (key !== undefined) {
+      if (typeof key !== 'string' || !ENTRY_KEY.test(key)) {
+        throw new InvalidEntryError(
+          `Invalid entry key: ${String(key)} (expected {YYYY-MM-DD}/ and up to 64 letters, digits, '.', '_', ':' or '-')`
+        );
+      }
+      if (!key.startsWith(`${day}/`)) {
+        throw new InvalidEntryError(`Entry key ${key} is not for ${day}, the day it would be written to`);
+      }
+    }
+    if (idempotencyKey !== undefined &&
+      (typeof idempotencyKey !== 'string' || idempotencyKey.length === 0 || idempotencyKey.length > 128)) {
+      throw new InvalidEntryError('An idempotency key must be a string of 1 to 128 characters');
+    }
+  }
+
+  /**
+   * For each input, the entry the caller already logged on a day with the
+   * same explicit key or idempotency key, queued in the outbox or stored.
+   * Nothing is read unless some input has one. Removed entries are found
+   * too, so a retry never brings one back.
+   */
+  private async findLogged(
+    day: string,
+    identityKey: string,
+    inputs: Array<Pick<CreateLogOptions, 'key' | 'idempotencyKey'>>
+  ): Promise<Array<LogEntry | undefined>> {
+    if (!inputs.some(input => input.key || input.idempotencyKey)) return inputs.map(() => undefined);
+
+    const queued = await Promise.all((await this.pending()).filter(record => record.day === day).flatMap(record => {
+      const parsed = JSON.parse(record.value);
+      return (Array.isArray(parsed.logs) ? parsed.logs : [parsed]) as LogEntry[];
+    }).map(log => this.openQueued(log)));
+    const rows = await this.fetchDayRows(day, { controller: identityKey }, { pages: Infinity });
+    const stored = await this.reconstructDay(rows, { controller: identityKey, includeDeleted: true, unreadable: 'redact' });
+    const logged = [...stored, ...queued];
+
+    return inputs.map(input => logged.find(log =>
+      (input.key !== undefined && log.key === input.key) ||
+      (input.idempotencyKey !== undefined && log.idempotencyKey === input.idempotencyKey)));
+  }
+
+  /**
+   * Mark an entry as private for the given recipients (no-op when empty).
+   */
+  private applyRecipients(entry: LogEntry, recipients?: string[]): void {
+    if (recipients && recipients.length > 0) {
+      entry.encrypted = true;
+      entry.recipients = [...new Set(recipients)];
+    }
+  }
+
+  /**
+   * Append entries to a day lineage as one value: a single entry, or a
+   * logMany() envelope. With an outbox the entries are queued and only
+   * signed on delivery, so public entries can be queued while the wallet is
+   * unreachable. Private entries are encrypted before they are queued (see
+   * sealForQueue()), so queuing them still needs the wallet.
+   */
+  private async append(
+    day: string,
+    logs: LogEntry[],
+    batch: boolean,
+    loggedAt: Date,
+    operation: WriteOperation
+  ): Promise<void> {
+    const tags = [...new Set(logs.flatMap(log => this.publicTags(log))), day]; // Include day as tag for filtering
+
+    if (this.outbox) {
+      // Outbox storage may be a plain file, so private entries never reach it unencrypted.
+      const queued = await Promise.all(logs.map(log => this.sealForQueue(log)));
+      const value = JSON.stringify(batch ? { logs: queued } : queued[0]);
+      await this.outbox.enqueue({
+        key: logs[0].key,
+        keys: batch ? logs.map(log => log.key) : undefined,
+        day,
+        value,
+        tags,
+        queuedAt: loggedAt.toISOString(),
+        attempts: 0,
+        nextAttemptAt: loggedAt.getTime(),
+        operation
+      });
+      return;
+    }
+
+    const value = JSON.stringify(batch ? { logs } : logs[0]);
+    const txid = await this.writeDay(day, await this.toStoredString(value), tags);
+    await this.middleware.afterWrite(logs, { operation, day, txid });
+  }
+
+  /**
+   * The form in which an entry is queued in the outbox: private entries are
+   * sealed for their recipients, anything else is queued as logged.
+   *
+   * @throws {WalletUnavailableError} If the wallet cannot encrypt the entry
+   */
+  private async sealForQueue(entry: LogEntry): Promise<LogEntry | SealedValue> {
+    if (!entry.encrypted || !entry.recipients) return entry;
+    try {
+      return await sealEntry(this.config.wallet, GLOSS_PROTOCOL_ID, entry, entry.recipients);
+    } catch (error) {
+      throw toGlossError(error, WalletUnavailableError);
+    }
+  }
+
+  /**
+   * An entry as logged, from its queued form. A private entry that cannot be
+   * decrypted is returned redacted.
+   */
+  private async openQueued(log: LogEntry): Promise<LogEntry> {
+    if (!isSealed(log)) return log;
+    try {
+      return await unsealEntry(this.config.wallet, GLOSS_PROTOCOL_ID, await this.ensureIdentityKey(), log);
+    } catch {
+      return redactEntry(log);
+    }
+  }
+
+  /**
+   * Apply the content policy to an entry about to be published. `published`
+   * tags, kept from the stored revision, are not checked again.
+   *
+   * @throws {PolicyViolationError} If the policy rejects the entry
+   */
+  private checkContent(entry: LogEntry, allowSecrets?: boolean, published?: string[]): LogEntry {
+    return this.policy ? this.policy.apply(entry, allowSecrets, published) : entry;
+  }
+
+  /**
+   * Run a built entry through the beforeWrite middleware and check what it
+   * returned as the entry itself was checked.
+   *
+   * @throws {InvalidEntryError} If a hook rejected the entry or made it invalid
+   */
+  private async prepareWrite(entry: LogEntry, context: WriteContext): Promise<LogEntry> {
+    const prepared = await this.middleware.beforeWrite(entry, context);
+    validateStructured(prepared);
+    this.validateParent(prepared.parent);
+    prepared.tags = prepared.tags ?? [];
+    prepared.assets = (prepared.assets ?? []).map(toDescriptor);
+    return prepared;
+  }
+
+  /**
+   * Append a stored value to one of the caller's lineages for a day: by
+   * default this device's lineage, or the shared day lineage without a
+   * `deviceId`. Device lineages also carry the tag they are discovered by.
+   *
+   * @returns The txid of the write, if the store reports an outpoint
+   */
+  private async writeDay(
+    day: string,
+    serialized: string,
+    tags: string[],
+    key: string = this.lineageKey(day)
+  ): Promise<string | undefined> {
+    const controller = await this.ensureIdentityKey();
+    const storeTags = key === this.dayKey(day) ? tags : [...tags, this.devicesTag(day)];
+    try {
+      const outpoint = await this.storeCall(() => this.kv.set(key, serialized, { controller, tags: storeTags }));
+      return typeof outpoint === 'string' && outpoint ? outpoint.split('.')[0] : undefined;
+    } finally {
+      // Even a failed write may have reached the store.
+      await this.cache?.invalidate(day, controller);
+    }
+  }
+
+  /**
+   * Run a store call under the retry policy. Failures are thrown as
+   * GlossErrors: OverlayUnavailableError unless recognized as something else.
+   */
+  private storeCall<T>(operation: () => Promise<T>): Promise<T> {
+    return withRetry(operation, error => toGlossError(error, OverlayUnavailableError), this.retry);
+  }
+
+  /**
+   * Find one of the caller's entries before changing it, and the key of the
+   * lineage (shared day or device) holding its newest revision.
+   *
+   * @param includeDeleted - Return the entry even if its latest revision is a tombstone
+   * @throws {NotFoundError} If no controller has an entry with this key
+   * @throws {NotOwnerError} If only another controller has one
+   */
+  private async findOwnEntry(
+    logKey: string,
+    identityKey: string,
+    includeDeleted: boolean
+  ): Promise<{ entry: LogEntry; lineageKey: string }> {
+    const day = logKey.split('/')[0];
+    const rows = await this.fetchDayRows(day, { controller: identityKey }, { pages: Infinity });
+    const own = await this.reconstructDay(rows, { controller: identityKey, includeDeleted });
+    const current = own.find(log => log.key === logKey);
+    if (current) {
+      const holder = rows.find(row => [row.value, ...(row.history ?? [])].some(value =>
+        typeof value === 'string' &&
+        this.parseLogEntries(value, row.controller).some(log => log.key === logKey && log.at === current.at)));
+      return { entry: current, lineageKey: holder?.key ?? this.dayKey(day) };
+    }
+
+    // Tell apart a missing entry from someone else's.
+    const others = (await this.readDay(day, { includeDeleted: true, unreadable: 'redact' }, true)).entries;
+    const owner = others.find(log => log.key === logKey && log.controller !== identityKey);
+    if (owner) {
+      throw new NotOwnerError(`Entry ${logKey} belongs to ${owner.controller}`);
+    }
+    throw new NotFoundError(`No entry ${logKey}`);
+  }
+
+  /**
+   * Convert an entry or logMany() envelope, as logged, to its stored form.
+   */
+  private async toStoredString(value: string): Promise<string> {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed.logs)) {
+      return JSON.stringify({ logs: await Promise.all(parsed.logs.map((log: LogEntry) => this.toStoredValue(log))) });
+    }
+    return JSON.stringify(await this.toStoredValue(parsed));
+  }
+
+  /**
+   * The value stored for an entry, signed by the caller's wallet: the entry
+   * itself, or for private entries its public fields plus the encrypted
+   * payload. Entries sealed when they were queued are stored as they are.
+   */
+  private async toStoredValue(entry: LogEntry): Promise<object> {
+    try {
+      const stored = isSealed(entry)
+        ? { ...entry }
+        : entry.encrypted && entry.recipients
+        ? await sealEntry(this.config.wallet, GLOSS_PROTOCOL_ID, entry, entry.recipients)
+        : { ...entry };
+      return await signStoredValue(this.config.wallet, GLOSS_PROTOCOL_ID, { v: CURRENT_SCHEMA_VERSION, ...stored });
+    } catch (error) {
+      throw toGlossError(error, WalletUnavailableError);
+    }
+  }
+
+  /**
+   * Store tags for an entry. Private entries publish no tags of their own,
+   * only the day tag added by the caller.
+   */
+  private publicTags(entry: LogEntry): string[] {
+    return entry.encrypted ? [] : entry.tags ?? [];
+  }
+
+  /**
+   * Verify a parsed entry's signature, unless `verified` already says how it
+   * checked out, and decrypt it for the caller.
+   * Returns null for entries dropped by `requireVerified`, and a redacted
+   * placeholder or null for private entries the caller cannot read.
+   */
+  private async openLog(
+    log: LogEntry,
+    options: Pick<QueryOptions, 'unreadable' | 'requireVerified'>,
+    verified?: VerificationStatus
+  ): Promise<LogEntry | null> {
+    const verification = verified ?? await this.verifyLog(log);
+    if (options.requireVerified && verification !== 'valid') return null;
+
+    let opened: LogEntry = log;
+    if (isSealed(log)) {
+      try {
+        const reader = await this.ensureIdentityKey();
+        opened = await unsealEntry(this.config.wallet, GLOSS_PROTOCOL_ID, reader, log);
+      } catch {
+        if (options.unreadable !== 'redact') return null;
+        opened = redactEntry(log);
+      }
+    }
+
+    return { ...this.cloneLog(opened), verification };
+  }
+
+  /**
+   * Check an entry's signature against the controller of the lineage it was
+   * read from. A signed entry whose body names a different controller is
+   * invalid even if the signature itself checks out.
+   */
+  private async verifyLog(log: LogEntry): Promise<VerificationStatus> {
+    if (!isSigned(log)) return 'unsigned';
+    if (log.proof.signer && log.controller !== log.proof.signer) return 'invalid';
+    return await verifyProof(GLOSS_PROTOCOL_ID, log.proof) ? 'valid' : 'invalid';
+  }
+
+  /**
+   * Sort entries by key (chronological), reversed for 'desc'.
+   */
+  private sortLogs(logs: LogEntry[], sortOrder: QueryOptions['sortOrder'] = 'asc'): LogEntry[] {
+    logs.sort((a, b) => a.key.localeCompare(b.key));
+    if (sortOrder === 'desc') {
+      logs.reverse();
+    }
+    return logs;
+  }
+
+  /**
+   * Count direct replies per parent in the `days` days starting at `from`,
+   * stopping at today.
+   */
+  private async countReplies(from: string, days: number, options: QueryOptions): Promise<Map<string, number>> {
+    const today = this.getLocalDate(this.clock());
+    let to = this.addDays(from, days - 1);
+    if (to > today) to = today < from ? from : today;
+
+    const counts = new Map<string, number>();
+    for await (const log of this.iterate(from, to, { unreadable: 'redact', requireVerified: options.requireVerified })) {
+      if (!log.parent) continue;
+      const parentIdentity = this.entryIdentity(log.parent);
+      counts.set(parentIdentity, (counts.get(parentIdentity) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  /**
+   * Identity of a logical entry across lineages: controller + key.
+   */
+  private entryIdentity(ref: { key: string; controller?: string }): string {
+    return `${ref.controller ?? ''}\u0000${ref.key}`;
+  }
+
+  private addDays(date: string, days: number): string {
+    return new Date(this.parseDate(date) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  }
+
+  /**
+   * Enumerate the YYYY-MM-DD dates from `from` to `to`, inclusive.
+   * Calendar arithmetic is done in UTC so DST transitions cannot skip or
+   * repeat a date.
+   */
+  private daysBetween(from: string, to: string): string[] {
+    const start = this.parseDate(from);
+    const end = this.parseDate(to);
+    if (start > end) {
+      throw new InvalidEntryError(`Invalid date range: ${from} is after ${to}`);
+    }
+
+    const days: string[] = [];
+    for (let t = start; t <= end; t += 24 * 60 * 60 * 1000) {
+      days.push(new Date(t).toISOString().slice(0, 10));
+    }
+    return days;
+  }
+
+  private parseDate(date: string): number {
+    const t = /^\d{4}-\d{2}-\d{2}$/.test(date) ? Date.parse(`${date}T00:00:00Z`) : NaN;
+    if (Number.isNaN(t) || new Date(t).toISOString().slice(0, 10) !== date) {
+      throw new InvalidEntryError(`Invalid date: ${date} (expected YYYY-MM-DD)`);
+    }
+    return t;
   }
 
   /**
@@ -406,15 +2028,34 @@ export class GlossClient {
    * Format: YYYY-MM-DD/HHmmss-SSS<rand>
    */
   private nextIdForDay(yyyyMmDd: string, reference?: Date): string {
-    const base = reference ?? new Date();
-    const hours = String(base.getHours()).padStart(2, '0');
-    const minutes = String(base.getMinutes()).padStart(2, '0');
-    const seconds = String(base.getSeconds()).padStart(2, '0');
-    const milliseconds = String(base.getMilliseconds()).padStart(3, '0');
-    const rand = Math.random().toString(36).slice(2, 6);
+    const base = zonedTime(reference ?? this.clock(), this.timeZone);
+    const hours = String(base.hour).padStart(2, '0');
+    const minutes = String(base.minute).padStart(2, '0');
+    const seconds = String(base.second).padStart(2, '0');
+    const milliseconds = String(base.millisecond).padStart(3, '0');
+    const rand = this.random().toString(36).slice(2, 6).padEnd(4, '0');
     return `${yyyyMmDd}/${hours}${minutes}${seconds}-${milliseconds}${rand}`;
   }
 
+  /**
+   * Distinct keys for the entries of one logMany() call, sorting in the order
+   * given: one generated key with a zero-padded index appended. A single
+   * entry gets the generated key as is. Indexes that would produce one of the
+   * `taken` keys are skipped, so nothing depends on drawing new random suffixes.
+   */
+  private batchKeys(day: string, now: Date, count: number, taken: Set<string | undefined>): string[] {
+    const base = this.nextIdForDay(day, now);
+    if (count === 1 && !taken.has(base)) return [base];
+
+    const width = String(count + taken.size).length;
+    const keys: string[] = [];
+    for (let i = 0; keys.length < count; i++) {
+      const key = `${base}${String(i).padStart(width, '0')}`;
+      if (!taken.has(key)) keys.push(key);
+    }
+    return keys;
+  }
+
   /**
    * Store a log entry (internal).
    * Each call spends/replaces the previous UTXO for this key lineage.
@@ -423,38 +2064,70 @@ export class GlossClient {
     return `entry/${day}`;
   }
 
+  /**
+   * Key of the lineage new entries for a day are written to.
+   */
+  private lineageKey(day: string): string {
+    return this.device ? `${this.dayKey(day)}/${this.device}` : this.dayKey(day);
+  }
+
+  /**
+   * Store tag carried by every device lineage of a day.
+   */
+  private devicesTag(day: string): string {
+    return `devices/${day}`;
+  }
+
   /**
    * Get local date string in YYYY-MM-DD format.
-   * Uses the user's local timezone.
+   * Uses the configured time zone, or the host's local time zone.
    */
-  private getLocalDate(date: Date): string {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
+  private getLocalDate(date: Date, timeZone: string | undefined = this.timeZone): string {
+    const local = zonedTime(date, timeZone);
+    const year = local.year;
+    const month = String(local.month).padStart(2, '0');
+    const day = String(local.day).padStart(2, '0');
     return `${year}-${month}-${day}`;
   }
 
-  private parseLogEntry(value: string, controller?: string): LogEntry | null {
+  /**
+   * Parse every log entry held in one stored value.
+   * A value is either a single entry or an envelope with a `logs` array:
+   * a logMany() batch, or a legacy day chain written before single-entry
+   * values. Entries are returned in stored order. Problems are passed to
+   * `context.report`.
+   */
+  private parseLogEntries(value: string, controller?: string, context: DecodeContext = {}): LogEntry[] {
+    const report = (diagnostic: EntryDiagnostic) => context.report?.({ ...diagnostic, controller });
+
+    let parsed: any;
     try {
-      const parsed = JSON.parse(value);
-      if (parsed == null || typeof parsed !== 'object') {
-        return null;
-      }
+      parsed = JSON.parse(value);
+    } catch {
+      report({ code: 'invalid-json', action: 'rejected', message: 'Stored value is not valid JSON' });
+      return [];
+    }
+    if (parsed == null || typeof parsed !== 'object') {
+      report({ code: 'not-an-object', action: 'rejected', message: 'Stored value is not a JSON object' });
+      return [];
+    }
 
-      // Handle new format (single entry) or old format (day chain) for backward compatibility
-      if (Array.isArray(parsed.logs)) {
-        // Old day chain format - extract first log
-        // This ensures backward compatibility with data created before this refactor
-        if (parsed.logs.length > 0) {
-          return this.normalizeLog(parsed.logs[0], controller);
-        }
-        return null;
-      }
+    const raws: unknown[] = Array.isArray(parsed.logs) ? parsed.logs : [parsed];
+    const logs: LogEntry[] = [];
+    for (const raw of raws) {
+      const log = this.normalizeLog(raw, controller, { ...context, report });
+      if (log) logs.push(log);
+    }
+    return logs;
+  }
 
-      return this.normalizeLog(parsed, controller);
-    } catch {
-      return null;
+  private matchesFieldFilter(fields: LogEntry['fields'], filter: Record<string, FieldValue>): boolean {
+    for (const [name, wanted] of Object.entries(filter)) {
+      if (!fields || !Object.prototype.hasOwnProperty.call(fields, name) || fields[name] !== wanted) {
+        return false;
+      }
     }
+    return true;
   }
 
   private matchesTagFilter(tags: string[], filter: Set<string>, mode: QueryOptions['tagQueryMode']): boolean {
@@ -485,37 +2158,161 @@ export class GlossClient {
       at: log.at,
       text: log.text,
       tags: log.tags ? [...log.tags] : undefined,
-      assets: log.assets ? [...log.assets] : undefined,
+      assets: log.assets ? log.assets.map(asset => ({ ...asset })) : undefined,
       controller: log.controller,
-      txid: log.txid
+      txid: log.txid,
+      deleted: log.deleted,
+      deleteReason: log.deleteReason,
+      encrypted: log.encrypted,
+      recipients: log.recipients ? [...log.recipients] : undefined,
+      redacted: log.redacted,
+      verification: log.verification,
+      level: log.level,
+      fields: log.fields ? { ...log.fields } : undefined,
+      context: log.context ? { ...log.context } : undefined,
+      parent: log.parent ? { ...log.parent } : undefined,
+      idempotencyKey: log.idempotencyKey,
+      replyCount: log.replyCount
     };
   }
 
-  private normalizeLog(raw: any, controller?: string): LogEntry | null {
-    if (raw == null || typeof raw !== 'object') {
+  /**
+   * Upgrade a stored entry to the current schema and validate it.
+   * In strict mode values with missing or malformed fields are rejected;
+   * otherwise a missing key or timestamp is substituted as before schema
+   * versioning, and reported as repaired.
+   */
+  private normalizeLog(stored: any, controller: string | undefined, context: DecodeContext): LogEntry | null {
+    const report = (diagnostic: EntryDiagnostic) => context.report?.(diagnostic);
+    if (stored == null || typeof stored !== 'object' || Array.isArray(stored)) {
+      report({ code: 'not-an-object', action: 'rejected', message: 'Entry is not a JSON object' });
       return null;
     }
 
-    const key = typeof raw.key === 'string' ? raw.key : this.nextIdForDay(this.getLocalDate(new Date()));
-    const at = typeof raw.at === 'string' ? raw.at : new Date().toISOString();
-    const text = typeof raw.text === 'string' ? raw.text : '';
-    const tags = Array.isArray(raw.tags) ? raw.tags.filter((tag: unknown) => typeof tag === 'string') : undefined;
-    const assets = Array.isArray(raw.assets) ? raw.assets.filter((asset: unknown) => typeof asset === 'string') : undefined;
-    const ctrl = typeof raw.controller === 'string' ? raw.controller : controller;
+    const version = this.schema.versionOf(stored);
+    const storedKey = typeof stored.key === 'string' ? stored.key : undefined;
+    if (version > CURRENT_SCHEMA_VERSION) {
+      report({
+        code: 'unsupported-version',
+        action: context.strict ? 'rejected' : 'accepted',
+        message: `Schema version ${version} is newer than ${CURRENT_SCHEMA_VERSION}`,
+        key: storedKey,
+        version
+      });
+      if (context.strict) return null;
+    }
+
+    let raw: Record<string, any>;
+    try {
+      raw = this.schema.upgrade(stored);
+    } catch (error) {
+      report({
+        code: 'migration-failed',
+        action: 'rejected',
+        message: error instanceof Error ? error.message : String(error),
+        key: storedKey,
+        version
+      });
+      return null;
+    }
 
-    if (!key || !text) {
+    // Only the lineage controller may write into its lineage: a body naming
+    // anyone else must not be attributed to them, nor override their entries.
+    if (controller !== undefined && raw.controller !== undefined && raw.controller !== controller) {
+      report({
+        code: 'controller-mismatch',
+        action: 'rejected',
+        message: `Entry names controller ${String(raw.controller)}, not the lineage controller`,
+        key: storedKey,
+        version
+      });
       return null;
     }
 
-    const normalizedKey = key.includes('/') ? key : `${at.slice(0, 10)}/${key}`;
+    const deleted = raw.deleted === true;
+    const sealed = raw.sealed != null && typeof raw.sealed === 'object' &&
+      typeof raw.sealed.ciphertext === 'string' && Array.isArray(raw.sealed.recipients)
+      ? raw.sealed
+      : undefined;
 
-    return {
-      key: normalizedKey,
+    let at: string;
+    if (typeof raw.at === 'string' && !Number.isNaN(Date.parse(raw.at))) {
+      at = raw.at;
+    } else if (context.strict) {
+      report({ code: 'invalid-timestamp', action: 'rejected', message: 'Entry has no valid `at` timestamp', key: storedKey, version });
+      return null;
+    } else if (typeof raw.at === 'string') {
+      at = raw.at;
+    } else {
+      at = this.clock().toISOString();
+      report({ code: 'invalid-timestamp', action: 'repaired', message: 'Entry has no `at`; substituted the read time', key: storedKey, version });
+    }
+
+    let key: string;
+    if (typeof raw.key === 'string' && /^\d{4}-\d{2}-\d{2}\/./.test(raw.key)) {
+      key = raw.key;
+    } else if (context.strict) {
+      report({ code: 'invalid-key', action: 'rejected', message: 'Entry has no valid `{YYYY-MM-DD}/...` key', key: storedKey, version });
+      return null;
+    } else if (typeof raw.key === 'string' && raw.key) {
+      key = raw.key.includes('/') ? raw.key : `${at.slice(0, 10)}/${raw.key}`;
+    } else {
+      key = this.nextIdForDay(this.getLocalDate(this.clock()));
+      report({ code: 'invalid-key', action: 'repaired', message: 'Entry has no key; generated one', key, version });
+    }
+
+    const text = typeof raw.text === 'string' ? raw.text : '';
+    // Tombstones carry no text and private entries keep theirs sealed;
+    // every other entry must have text.
+    if (!text && !deleted && !sealed) {
+      report({ code: 'missing-text', action: 'rejected', message: 'Entry has no text', key, version });
+      return null;
+    }
+
+    const log: LogEntry = {
+      key,
       at,
       text,
-      tags,
-      assets,
-      controller: ctrl
+      tags: Array.isArray(raw.tags) ? raw.tags.filter((tag: unknown) => typeof tag === 'string') : undefined,
+      assets: readAssets(raw.assets),
+      controller: controller ?? (typeof raw.controller === 'string' ? raw.controller : undefined)
     };
+    const level = readLevel(raw.level);
+    const fields = readFields(raw.fields);
+    const logContext = readContext(raw.context);
+    if (level) log.level = level;
+    if (fields) log.fields = fields;
+    if (logContext) log.context = logContext;
+    if (raw.parent != null && typeof raw.parent === 'object' &&
+      typeof raw.parent.key === 'string' && typeof raw.parent.controller === 'string') {
+      log.parent = { key: raw.parent.key, controller: raw.parent.controller };
+    }
+    if (typeof raw.idempotencyKey === 'string' && raw.idempotencyKey) {
+      log.idempotencyKey = raw.idempotencyKey;
+    }
+    if (deleted) {
+      log.deleted = true;
+      if (typeof raw.deleteReason === 'string') {
+        log.deleteReason = raw.deleteReason;
+      }
+    }
+    // Both are resolved later by openLog(); see SealedLogEntry and
+    // SignedLogEntry. The signature covers the value as stored, before any
+    // migration, and the lineage controller is the expected signer.
+    const proof = proofFor(stored, controller);
+    if (sealed || proof) {
+      return { ...log, ...(sealed ? { sealed } : {}), ...(proof ? { proof } : {}) } as SealedLogEntry | SignedLogEntry;
+    }
+    return log;
   }
 }
+
+/**
+ * How stored values are decoded (internal).
+ */
+interface DecodeContext {
+  /** Reject malformed values instead of substituting missing fields */
+  strict?: boolean;
+  /** Receives a diagnostic for every rejected or repaired value */
+  report?: (diagnostic: EntryDiagnostic) => void;
+}
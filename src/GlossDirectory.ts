@@ -0,0 +1,187 @@
+import { InvalidEntryError, NotFoundError } from './errors.js';
+import { JsonFileSnapshotStorage, loadSnapshot, MemorySnapshotStorage } from './jsonFile.js';
+import { DirectoryEntry, DirectoryOptions, DirectorySnapshot, DirectoryStorage, IdentityInfo } from './types.js';
+
+const HANDLE = /^[A-Za-z0-9_.-]{1,32}$/;
+
+/**
+ * Keeps the directory in process memory only.
+ */
+export class MemoryDirectoryStorage extends MemorySnapshotStorage<DirectorySnapshot> implements DirectoryStorage {}
+
+/**
+ * Persists the directory to a JSON file (Node.js only).
+ */
+export class FileDirectoryStorage extends JsonFileSnapshotStorage<DirectorySnapshot> implements DirectoryStorage {
+  constructor(path: string) {
+    super(path, (parsed: any) => {
+      if (parsed == null || typeof parsed !== 'object' || !Array.isArray(parsed.identities)) return undefined;
+      return { identities: parsed.identities, lists: parsed.lists ?? {} };
+    });
+  }
+}
+
+/**
+ * GlossDirectory - Local names for identity keys, and follow lists
+ *
+ * Maps identity keys to display names and handles, and keeps named lists of
+ * followed identities. Nothing here is published: the directory lives in its
+ * storage only. Handles are unique and may be written with a leading `@`
+ * wherever an identity is expected.
+ */
+export class GlossDirectory {
+  private storage: DirectoryStorage;
+  private identities = new Map<string, DirectoryEntry>();
+  private lists = new Map<string, string[]>();
+  private ready: Promise<void>;
+
+  constructor(options: DirectoryOptions = {}) {
+    this.storage = options.storage ?? new MemoryDirectoryStorage();
+    this.ready = loadSnapshot(this.storage, snapshot => {
+      if (!snapshot) return;
+      for (const entry of snapshot.identities) {
+        this.identities.set(entry.identityKey, entry);
+      }
+      for (const [name, keys] of Object.entries(snapshot.lists)) {
+        this.lists.set(name, keys);
+      }
+    });
+  }
+
+  /**
+   * Add an identity or replace its name and handle.
+   *
+   * @throws {InvalidEntryError} If the handle is malformed or belongs to another identity
+   */
+  async set(identityKey: string, info: IdentityInfo): Promise<DirectoryEntry> {
+    await this.ready;
+    if (!identityKey) throw new InvalidEntryError('Expected an identity key');
+    const entry: DirectoryEntry = { identityKey };
+    if (info.name) entry.name = info.name;
+    if (info.handle) {
+      const handle = info.handle.replace(/^@/, '');
+      if (!HANDLE.test(handle)) throw new InvalidEntryError(`Invalid handle: ${info.handle}`);
+      const owner = this.byHandle(handle);
+      if (owner && owner.identityKey !== identityKey) {
+        throw new InvalidEntryError(`Handle @${handle} already belongs to ${owner.identityKey}`);
+      }
+      entry.handle = handle;
+    }
+    this.identities.set(identityKey, entry);
+    await this.persist();
+    return { ...entry };
+  }
+
+  /**
+   * Forget an identity's name and handle. Follow lists are left unchanged.
+   *
+   * @returns false if the identity was not in the directory
+   */
+  async remove(identityKey: string): Promise<boolean> {
+    await this.ready;
+    if (!this.identities.delete(identityKey)) return false;
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * The directory entry of an identity key; keys without one get an entry
+   * with no name or handle.
+   */
+  async get(identityKey: string): Promise<DirectoryEntry> {
+    await this.ready;
+    return { ...(this.identities.get(identityKey) ?? { identityKey }) };
+  }
+
+  /**
+   * Every identity with a name or handle, by display name.
+   */
+  async list(): Promise<DirectoryEntry[]> {
+    await this.ready;
+    return [...this.identities.values()]
+      .map(entry => ({ ...entry }))
+      .sort((a, b) => displayName(a).localeCompare(displayName(b)));
+  }
+
+  /**
+   * The identity key for a handle (`@alice` or `alice`); anything else
+   * without a leading `@` is taken to be an identity key already.
+   *
+   * @throws {NotFoundError} If an `@handle` is not in the directory
+   */
+  async resolve(identity: string): Promise<string> {
+    await this.ready;
+    const owner = this.byHandle(identity.replace(/^@/, ''));
+    if (owner) return owner.identityKey;
+    if (identity.startsWith('@')) throw new NotFoundError(`Unknown handle: ${identity}`);
+    return identity;
+  }
+
+  /**
+   * Add an identity to a follow list, creating the list if needed.
+   *
+   * @returns false if the list already contained it
+   */
+  async follow(listName: string, identityKey: string): Promise<boolean> {
+    await this.ready;
+    const keys = this.lists.get(listName) ?? [];
+    if (keys.includes(identityKey)) return false;
+    this.lists.set(listName, [...keys, identityKey]);
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * Remove an identity from a follow list. A list left empty is deleted.
+   *
+   * @returns false if the list did not contain it
+   */
+  async unfollow(listName: string, identityKey: string): Promise<boolean> {
+    await this.ready;
+    const keys = this.lists.get(listName) ?? [];
+    if (!keys.includes(identityKey)) return false;
+    const rest = keys.filter(key => key !== identityKey);
+    if (rest.length > 0) {
+      this.lists.set(listName, rest);
+    } else {
+      this.lists.delete(listName);
+    }
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * The identity keys on a follow list, in the order they were followed.
+   */
+  async following(listName: string): Promise<string[]> {
+    await this.ready;
+    return [...(this.lists.get(listName) ?? [])];
+  }
+
+  /**
+   * Names of the follow lists that have members.
+   */
+  async listNames(): Promise<string[]> {
+    await this.ready;
+    return [...this.lists.keys()].sort();
+  }
+
+  private byHandle(handle: string): DirectoryEntry | undefined {
+    const wanted = handle.toLowerCase();
+    return [...this.identities.values()].find(entry => entry.handle?.toLowerCase() === wanted);
+  }
+
+  private async persist(): Promise<void> {
+    await this.storage.save({
+      identities: [...this.identities.values()],
+      lists: Object.fromEntries(this.lists)
+    });
+  }
+}
+
+/**
+ * How an identity is shown: its name, else `@handle`, else the identity key.
+ */
+export function displayName(entry: DirectoryEntry): string {
+  return entry.name ?? (entry.handle ? `@${entry.handle}` : entry.identityKey);
+}
@@ -0,0 +1,207 @@
+import { GlossError } from './errors.js';
+import { JsonFileSnapshotStorage, loadSnapshot, MemorySnapshotStorage } from './jsonFile.js';
+import { OutboxFlushResult, OutboxOptions, OutboxRecord, OutboxStorage } from './types.js';
+
+// Longest delay setTimeout accepts; longer ones fire at once.
+const MAX_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Keeps outbox records in process memory. Records survive transient
+ * store failures but not a restart.
+ */
+export class MemoryOutboxStorage extends MemorySnapshotStorage<OutboxRecord[]> implements OutboxStorage {
+  async load(): Promise<OutboxRecord[]> {
+    return (await super.load()) ?? [];
+  }
+}
+
+/**
+ * Persists outbox records to a JSON file (Node.js only).
+ */
+export class FileOutboxStorage extends JsonFileSnapshotStorage<OutboxRecord[]> implements OutboxStorage {
+  constructor(path: string) {
+    super(path, parsed => Array.isArray(parsed) ? parsed : undefined, 2);
+  }
+
+  async load(): Promise<OutboxRecord[]> {
+    return (await super.load()) ?? [];
+  }
+}
+
+/**
+ * GlossOutbox - Durable queue for log() writes
+ *
+ * Records are delivered in queue order per day lineage: a record is only
+ * written once every earlier record for the same day has been delivered, so
+ * the spend chain keeps the order in which entries were logged. Different
+ * days do not block one another. A failed delivery is retried with
+ * exponential backoff; records are never dropped. Retry times are read from
+ * `clock`, the same clock that stamps records when they are queued.
+ */
+export class GlossOutbox {
+  private records: OutboxRecord[] = [];
+  private storage: OutboxStorage;
+  private ready: Promise<void>;
+  private running: Promise<unknown> = Promise.resolve();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  private waiters = new Map<string, { promise: Promise<void>; resolve: () => void }>();
+
+  constructor(
+    private writer: (record: OutboxRecord) => Promise<void>,
+    private options: OutboxOptions = {},
+    private clock: () => number = Date.now
+  ) {
+    this.storage = options.storage ?? new MemoryOutboxStorage();
+    this.ready = loadSnapshot(this.storage, records => {
+      this.records = records;
+      for (const record of records) {
+        this.waitersFor(record);
+      }
+      // Replay right away after a restart rather than waiting out the
+      // backoff of a previous process.
+      if (records.length > 0 && !this.closed) {
+        this.run(true).catch(() => undefined);
+      }
+    });
+  }
+
+  /**
+   * Persist a record and schedule its delivery.
+   */
+  async enqueue(record: OutboxRecord): Promise<void> {
+    await this.ready;
+    this.waitersFor(record);
+    this.records.push(record);
+    await this.persist();
+    this.schedule(0);
+  }
+
+  /**
+   * Resolves once the entry with this key has been written to the store.
+   * Resolves immediately for keys that are not queued.
+   */
+  async delivered(key: string): Promise<void> {
+    await this.ready;
+    return this.waiters.get(key)?.promise;
+  }
+
+  /**
+   * Snapshot of the records still waiting for delivery, in queue order.
+   */
+  async pending(): Promise<OutboxRecord[]> {
+    await this.ready;
+    return this.records.map(record => ({ ...record, tags: [...record.tags] }));
+  }
+
+  /**
+   * Attempt delivery of every queued record now, ignoring retry delays.
+   * Stops a day lineage at its first failure.
+   */
+  async flush(): Promise<OutboxFlushResult> {
+    await this.ready;
+    const delivered = await this.run(true);
+    return { delivered, pending: this.records.length };
+  }
+
+  /**
+   * Stop automatic retries. Queued records stay persisted.
+   */
+  close(): void {
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private run(force: boolean): Promise<number> {
+    const next = this.running.then(() => this.drain(force));
+    this.running = next.catch(() => undefined);
+    return next.finally(() => this.scheduleNext());
+  }
+
+  private async drain(force: boolean): Promise<number> {
+    const now = this.clock();
+    const blockedDays = new Set<string>();
+    let delivered = 0;
+
+    for (const record of [...this.records]) {
+      if (blockedDays.has(record.day)) continue;
+      if (!force && record.nextAttemptAt > now) {
+        blockedDays.add(record.day);
+        continue;
+      }
+
+      try {
+        await this.writer(record);
+      } catch (error) {
+        record.attempts++;
+        record.lastError = error instanceof Error ? error.message : String(error);
+        record.lastErrorCode = error instanceof GlossError ? error.code : undefined;
+        record.nextAttemptAt = this.clock() + this.backoff(record.attempts);
+        blockedDays.add(record.day);
+        await this.persist();
+        continue;
+      }
+
+      this.records = this.records.filter(queued => queued !== record);
+      await this.persist();
+      delivered++;
+      for (const key of record.keys ?? [record.key]) {
+        this.waiters.get(key)?.resolve();
+        this.waiters.delete(key);
+      }
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Schedule the next automatic drain for when the earliest lineage head
+   * becomes due. Records behind a head are not considered: they cannot be
+   * delivered before it.
+   */
+  private scheduleNext(): void {
+    const heads = new Map<string, OutboxRecord>();
+    for (const record of this.records) {
+      if (!heads.has(record.day)) heads.set(record.day, record);
+    }
+    if (heads.size === 0) return;
+
+    const due = Math.min(...[...heads.values()].map(record => record.nextAttemptAt));
+    this.schedule(Math.min(Math.max(0, due - this.clock()), MAX_DELAY_MS));
+  }
+
+  private schedule(delay: number): void {
+    if (this.closed) return;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.run(false).catch(() => undefined);
+    }, delay);
+    // Pending retries must not keep a Node.js process alive on their own.
+    this.timer.unref?.();
+  }
+
+  private backoff(attempts: number): number {
+    const base = this.options.baseDelayMs ?? 1000;
+    const max = this.options.maxDelayMs ?? 5 * 60_000;
+    return Math.min(base * Math.pow(2, attempts - 1), max);
+  }
+
+  private waitersFor(record: OutboxRecord): void {
+    for (const key of record.keys ?? [record.key]) {
+      if (this.waiters.has(key)) continue;
+      let resolve!: () => void;
+      const promise = new Promise<void>(res => { resolve = res; });
+      this.waiters.set(key, { promise, resolve });
+    }
+  }
+
+  private persist(): Promise<void> {
+    return this.storage.save(this.records);
+  }
+}
@@ -0,0 +1,125 @@
+import { GlobalKVStore, Hash, Utils } from '@bsv/sdk';
+import { GlossStore, StoreGetOptions, StoreQuery, StoreRecord, StoreWriteOptions } from './types.js';
+import { NotFoundError } from './errors.js';
+
+/**
+ * GlossStore backed by a GlobalKVStore on the overlay network.
+ * The writing controller is always the GlobalKVStore wallet's identity key.
+ */
+export class GlobalKVGlossStore implements GlossStore {
+  constructor(private kv: GlobalKVStore) {}
+
+  async set(key: string, value: string, options: StoreWriteOptions): Promise<string> {
+    return this.kv.set(key, value, { tags: options.tags });
+  }
+
+  async get(query: StoreQuery, options: StoreGetOptions = {}): Promise<StoreRecord[]> {
+    const result = await this.kv.get(query, options);
+    const rows = Array.isArray(result) ? result : result ? [result] : [];
+    return rows.map(row => ({
+      key: row.key,
+      value: row.value,
+      controller: row.controller,
+      tags: row.tags,
+      history: row.history,
+      token: row.token ? { txid: row.token.txid, outputIndex: row.token.outputIndex } : undefined
+    }));
+  }
+
+  async remove(key: string): Promise<string> {
+    try {
+      return await this.kv.remove(key);
+    } catch (error: any) {
+      if (/did not exist/.test(error?.message ?? '')) {
+        throw new NotFoundError(`No lineage for ${key}`, { cause: error });
+      }
+      throw error;
+    }
+  }
+}
+
+interface MemoryLineage {
+  key: string;
+  controller: string;
+  values: Array<{ value: string; tags: string[]; txid: string }>;
+}
+
+/**
+ * Keeps day lineages in process memory, for local development and tests.
+ * Share one instance between clients with different wallets to simulate
+ * several controllers: each set() extends the writer's own lineage, get()
+ * returns the history oldest first including the tip, and every value gets a
+ * distinct txid.
+ */
+export class MemoryGlossStore implements GlossStore {
+  private lineages = new Map<string, MemoryLineage>();
+  private transactions = 0;
+
+  async set(key: string, value: string, options: StoreWriteOptions): Promise<string> {
+    const id = this.lineageId(options.controller, key);
+    let lineage = this.lineages.get(id);
+    if (!lineage) {
+      lineage = { key, controller: options.controller, values: [] };
+      this.lineages.set(id, lineage);
+    }
+    const txid = this.nextTxid();
+    lineage.values.push({ value, tags: [...(options.tags ?? [])], txid });
+    return `${txid}.0`;
+  }
+
+  async get(query: StoreQuery, options: StoreGetOptions = {}): Promise<StoreRecord[]> {
+    const matches = [...this.lineages.values()].filter(lineage => {
+      if (query.key !== undefined && lineage.key !== query.key) return false;
+      if (query.controller !== undefined && lineage.controller !== query.controller) return false;
+      if (query.tags && query.tags.length > 0) {
+        const tags = lineage.values[lineage.values.length - 1].tags;
+        return query.tagQueryMode === 'any'
+          ? query.tags.some(tag => tags.includes(tag))
+          : query.tags.every(tag => tags.includes(tag));
+      }
+      return true;
+    });
+
+    const skip = Math.max(0, query.skip ?? 0);
+    const page = query.limit !== undefined && query.limit > 0
+      ? matches.slice(skip, skip + query.limit)
+      : matches.slice(skip);
+
+    return page.map(lineage => {
+      const tip = lineage.values[lineage.values.length - 1];
+      const record: StoreRecord = {
+        key: lineage.key,
+        value: tip.value,
+        controller: lineage.controller,
+        tags: [...tip.tags]
+      };
+      if (options.history) record.history = lineage.values.map(entry => entry.value);
+      if (options.includeToken) record.token = { txid: tip.txid, outputIndex: 0 };
+      return record;
+    });
+  }
+
+  async remove(key: string, options: StoreWriteOptions): Promise<string> {
+    const id = this.lineageId(options.controller, key);
+    if (!this.lineages.delete(id)) {
+      throw new NotFoundError(`No lineage for ${key} owned by ${options.controller}`);
+    }
+    return this.nextTxid();
+  }
+
+  /**
+   * Forget every stored lineage.
+   */
+  clear(): void {
+    this.lineages.clear();
+  }
+
+  private lineageId(controller: string, key: string): string {
+    return `${controller}\u0000${key}`;
+  }
+
+  private nextTxid(): string {
+    this.transactions++;
+    return Utils.toHex(Hash.sha256(Utils.toArray(`gloss-memory-store/${this.transactions}`, 'utf8')));
+  }
+}
@@ -0,0 +1,357 @@
+import { GlossError } from './errors.js';
+import { levelRank, STRUCTURED_LIMITS } from './structured.js';
+import {
+  ConsoleLike,
+  FieldValue,
+  LogEntry,
+  LogLevel,
+  LogManyInput,
+  TransportFlushResult,
+  TransportOptions,
+  TransportRecord,
+  TransportStream
+} from './types.js';
+
+// Names used by common loggers, by the Gloss level they map to.
+const LEVEL_NAMES: Record<string, LogLevel> = {
+  trace: 'debug',
+  silly: 'debug',
+  verbose: 'debug',
+  debug: 'debug',
+  log: 'info',
+  http: 'info',
+  info: 'info',
+  notice: 'info',
+  warn: 'warn',
+  warning: 'warn',
+  error: 'error',
+  fatal: 'error',
+  crit: 'error',
+  critical: 'error',
+  alert: 'error',
+  emerg: 'error'
+};
+
+// Metadata that loggers add to every record and that is not worth publishing.
+const RECORD_KEYS = new Set(['level', 'message', 'msg', 'time', 'timestamp', 'pid', 'hostname', 'v']);
+const CONSOLE_METHODS = ['debug', 'log', 'info', 'warn', 'error'] as const;
+const FIELD_NAME = /^[A-Za-z0-9_.-]+$/;
+
+interface Buffered {
+  record: TransportRecord;
+  input: LogManyInput;
+}
+
+/**
+ * GlossTransport - Publishes records from conventional loggers
+ *
+ * Records are filtered by level and tag rules, then buffered and written in
+ * batches with logMany(), so a burst of log lines costs a few transactions
+ * instead of one each. At most `maxWritesPerMinute` transactions are made;
+ * records wait in the buffer beyond that. Call close() on shutdown to write
+ * what is left.
+ */
+export class GlossTransport {
+  private buffer: Buffered[] = [];
+  private writes: number[] = [];
+  private running: Promise<unknown> = Promise.resolve();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private exitHook: (() => void) | null = null;
+  private closed = false;
+  private droppedCount = 0;
+  private clock: () => number;
+
+  constructor(
+    private client: { logMany(entries: LogManyInput[]): Promise<LogEntry[]> },
+    private options: TransportOptions = {}
+  ) {
+    this.clock = options.clock ?? Date.now;
+    this.timer = setInterval(() => {
+      if (this.buffer.length > 0) this.run(false).catch(() => undefined);
+    }, options.flushIntervalMs ?? 10_000);
+    // Buffered records must not keep a Node.js process alive on their own.
+    this.timer.unref?.();
+
+    if (options.flushOnExit && typeof process !== 'undefined' && typeof process.once === 'function') {
+      this.exitHook = () => {
+        this.close().catch(() => undefined);
+      };
+      process.once('beforeExit', this.exitHook);
+    }
+  }
+
+  /** Records waiting to be written */
+  get pending(): number {
+    return this.buffer.length;
+  }
+
+  /** Records dropped so far: over the buffer limit, or rejected by the client */
+  get dropped(): number {
+    return this.droppedCount;
+  }
+
+  /**
+   * Buffer a record for publishing. Never throws and never waits, so it can
+   * be called from any logger.
+   *
+   * @returns false if the record was filtered out, has no message or the transport is closed
+   */
+  write(record: TransportRecord): boolean {
+    if (this.closed) return false;
+    const input = this.toInput(record);
+    if (!input) return false;
+
+    this.buffer.push({ record, input });
+    const excess = this.buffer.length - (this.options.maxBuffered ?? 1000);
+    if (excess > 0) {
+      this.buffer.splice(0, excess);
+      this.droppedCount += excess;
+    }
+    if (this.buffer.length >= this.batchSize()) {
+      this.run(false).catch(() => undefined);
+    }
+    return true;
+  }
+
+  /**
+   * Write every buffered record now, ignoring the rate limit.
+   */
+  async flush(): Promise<TransportFlushResult> {
+    const written = await this.run(true);
+    return { written, pending: this.buffer.length, dropped: this.droppedCount };
+  }
+
+  /**
+   * Stop accepting records and write the buffered ones.
+   */
+  async close(): Promise<TransportFlushResult> {
+    this.closed = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.exitHook) {
+      process.off('beforeExit', this.exitHook);
+      this.exitHook = null;
+    }
+    return this.flush();
+  }
+
+  private run(force: boolean): Promise<number> {
+    const next = this.running.then(() => this.drain(force));
+    this.running = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Write buffered records in batches. A batch the client rejects for good
+   * (a non-retryable GlossError) is split until the offending records are
+   * isolated and dropped; on a transient failure the unsent records go back
+   * to the front of the buffer for the next attempt.
+   */
+  private async drain(force: boolean): Promise<number> {
+    let written = 0;
+    while (this.buffer.length > 0 && (force || this.mayWrite())) {
+      const parts = [this.buffer.splice(0, this.batchSize())];
+      while (parts.length > 0) {
+        const part = parts.shift()!;
+        this.writes.push(this.clock());
+        try {
+          await this.client.logMany(part.map(item => item.input));
+          written += part.length;
+        } catch (error) {
+          if (!(error instanceof GlossError) || error.retryable) {
+            this.buffer.unshift(...part, ...parts.flat());
+            this.report(error, part);
+            return written;
+          }
+          if (part.length > 1) {
+            const half = Math.ceil(part.length / 2);
+            parts.unshift(part.slice(0, half), part.slice(half));
+            continue;
+          }
+          this.droppedCount++;
+          this.report(error, part);
+        }
+      }
+    }
+    return written;
+  }
+
+  private mayWrite(): boolean {
+    const now = this.clock();
+    this.writes = this.writes.filter(at => now - at < 60_000);
+    return this.writes.length < (this.options.maxWritesPerMinute ?? 6);
+  }
+
+  private batchSize(): number {
+    return Math.max(1, this.options.maxBatchSize ?? 50);
+  }
+
+  private report(error: unknown, items: Buffered[]): void {
+    try {
+      this.options.onError?.(error instanceof Error ? error : new Error(String(error)), items.map(item => item.record));
+    } catch {
+      // A failing error handler must not break logging.
+    }
+  }
+
+  /**
+   * The entry for a record, or null if it has no message or the level or
+   * tag rules filter it out.
+   */
+  private toInput(record: TransportRecord): LogManyInput | null {
+    const text = record.message == null ? '' : String(record.message);
+    if (text.trim() === '') return null;
+    const level = toLevel(record.level);
+    if (levelRank(level) < levelRank(this.options.minLevel ?? 'info')) return null;
+
+    const metadata = record.metadata ?? {};
+    const tagKeys = this.options.tagKeys ?? [];
+    const tags = [...new Set([
+      ...(this.options.tags ?? []),
+      ...tagKeys.flatMap(key => {
+        const value = metadata[key];
+        return value == null || typeof value === 'object' ? [] : [toTag(String(value))];
+      })
+    ])].filter(tag => tag !== '');
+
+    const { includeTags, excludeTags, filter } = this.options;
+    if (includeTags && !tags.some(tag => includeTags.includes(tag))) return null;
+    if (excludeTags && tags.some(tag => excludeTags.includes(tag))) return null;
+    if (filter && !filter(record)) return null;
+
+    const input: LogManyInput = { text, level, tags };
+    const fields = toFields(metadata, new Set(tagKeys));
+    if (fields) input.fields = fields;
+    if (this.options.context) input.context = { ...this.options.context };
+    return input;
+  }
+}
+
+/**
+ * Also send console output to a transport; every call is still printed.
+ * `console.log` counts as 'info'.
+ *
+ * @returns A function that restores the original console methods
+ */
+export function attachConsole(transport: GlossTransport, target: ConsoleLike = console): () => void {
+  const originals = CONSOLE_METHODS.map(method => [method, target[method]] as const);
+  for (const [method, original] of originals) {
+    target[method] = (...args: unknown[]) => {
+      original.apply(target, args);
+      transport.write({ level: method, message: args.map(formatArg).join(' ') });
+    };
+  }
+  return () => {
+    for (const [method, original] of originals) {
+      target[method] = original;
+    }
+  };
+}
+
+/**
+ * A stream feeding a transport: write NDJSON lines (pino's output format)
+ * or record objects to it. `message`/`msg` and `level` are read from each
+ * record; the other properties become metadata. Lines that are not JSON are
+ * published as plain info messages.
+ */
+export function createTransportStream(transport: GlossTransport): TransportStream {
+  const decoder = new TextDecoder();
+  let partial = '';
+
+  const writeLine = (line: string) => {
+    if (line.trim() === '') return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      parsed = undefined;
+    }
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      transport.write(toRecord(parsed as Record<string, unknown>));
+    } else {
+      transport.write({ message: line });
+    }
+  };
+
+  return {
+    write(chunk) {
+      if (typeof chunk === 'string' || chunk instanceof Uint8Array) {
+        const lines = (partial + (typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true }))).split('\n');
+        partial = lines.pop()!;
+        lines.forEach(writeLine);
+      } else {
+        transport.write(toRecord(chunk));
+      }
+      return true;
+    },
+    async end() {
+      writeLine(partial + decoder.decode());
+      partial = '';
+      await transport.flush();
+    }
+  };
+}
+
+function toRecord(raw: Record<string, unknown>): TransportRecord {
+  const metadata: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!RECORD_KEYS.has(key)) metadata[key] = value;
+  }
+  const message = raw.message ?? raw.msg ?? '';
+  return {
+    level: typeof raw.level === 'string' || typeof raw.level === 'number' ? raw.level : undefined,
+    message: typeof message === 'string' ? message : JSON.stringify(message),
+    metadata
+  };
+}
+
+/**
+ * Map a logger level to a Gloss level. Numbers follow pino (30 info, 40
+ * warn, 50 error); unknown names count as 'info'.
+ */
+function toLevel(level: TransportRecord['level']): LogLevel {
+  if (typeof level === 'number') {
+    return level < 30 ? 'debug' : level < 40 ? 'info' : level < 50 ? 'warn' : 'error';
+  }
+  return LEVEL_NAMES[String(level ?? 'info').toLowerCase()] ?? 'info';
+}
+
+function toTag(value: string): string {
+  return value.replace(/[^A-Za-z0-9._:/-]+/g, '-').replace(/^[^A-Za-z0-9]+/, '').slice(0, 64);
+}
+
+/**
+ * Scalar metadata as entry fields, within the structured data limits.
+ * Nested values and names that are not valid field names are left out.
+ */
+function toFields(metadata: Record<string, unknown>, skip: Set<string>): Record<string, FieldValue> | undefined {
+  const fields: Record<string, FieldValue> = {};
+  let count = 0;
+  for (const [name, raw] of Object.entries(metadata)) {
+    if (skip.has(name) || !FIELD_NAME.test(name) || name.length > STRUCTURED_LIMITS.maxFieldNameLength) continue;
+    let value: FieldValue;
+    if (typeof raw === 'string') {
+      value = raw.slice(0, STRUCTURED_LIMITS.maxFieldValueLength);
+    } else if ((typeof raw === 'number' && Number.isFinite(raw)) || typeof raw === 'boolean' || raw === null) {
+      value = raw;
+    } else {
+      continue;
+    }
+    if (JSON.stringify({ ...fields, [name]: value }).length > STRUCTURED_LIMITS.maxFieldsBytes) break;
+    fields[name] = value;
+    if (++count >= STRUCTURED_LIMITS.maxFields) break;
+  }
+  return count > 0 ? fields : undefined;
+}
+
+function formatArg(arg: unknown): string {
+  if (typeof arg === 'string') return arg;
+  if (arg instanceof Error) return arg.stack ?? arg.message;
+  try {
+    return JSON.stringify(arg) ?? String(arg);
+  } catch {
+    return String(arg);
+  }
+}
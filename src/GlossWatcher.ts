@@ -0,0 +1,163 @@
+import { LogEntry, QueryOptions, WatchCursor, WatchOptions } from './types.js';
+
+/**
+ * What a watcher needs from its client: day reads and the current local date.
+ */
+export interface WatchSource {
+  listDay(date: string, options: QueryOptions): Promise<LogEntry[]>;
+  today(): string;
+}
+
+/**
+ * GlossWatcher - Follows the global log stream by polling day lineages
+ *
+ * Yields each logical entry (controller + key) once, the first time it is
+ * seen, so later revisions of an entry are not re-emitted. When the local day
+ * rolls over, the previous day is read one last time before the watcher moves
+ * on to the next day key.
+ *
+ * `cursor` is a plain JSON-serializable snapshot. An entry is recorded in the
+ * cursor only once it has been yielded, so a process restarted with a saved
+ * cursor neither replays delivered entries nor skips undelivered ones.
+ *
+ * @example
+ * ```typescript
+ * const watcher = gloss.watch({ tags: ['deploy'], cursor: saved });
+ * for await (const entry of watcher) {
+ *   console.log(entry.text);
+ *   saved = watcher.cursor;
+ * }
+ * ```
+ */
+export class GlossWatcher implements AsyncIterable<LogEntry> {
+  private day: string;
+  private seen: Set<string>;
+  private primed: boolean;
+  private stopped = false;
+  private failures = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private wake: (() => void) | null = null;
+
+  constructor(private source: WatchSource, private options: WatchOptions = {}) {
+    if (options.cursor) {
+      this.day = options.cursor.day;
+      this.seen = new Set(options.cursor.seen);
+      this.primed = true;
+    } else {
+      this.day = source.today();
+      this.seen = new Set();
+      this.primed = options.includeExisting === true;
+    }
+  }
+
+  /**
+   * Serializable resume position: the day being watched and the entries
+   * already delivered for it.
+   */
+  get cursor(): WatchCursor {
+    return { day: this.day, seen: [...this.seen] };
+  }
+
+  /**
+   * Stop polling. A pending iteration step finishes without yielding.
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.wake?.();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<LogEntry> {
+    while (!this.stopped) {
+      const polledDay = this.day;
+      const dayOver = polledDay < this.source.today();
+      let fresh: LogEntry[] | null = null;
+
+      try {
+        fresh = await this.poll(polledDay);
+        this.failures = 0;
+      } catch (error) {
+        this.failures++;
+        this.options.onError?.(error);
+      }
+
+      if (fresh) {
+        for (const log of fresh) {
+          if (this.stopped) return;
+          this.seen.add(entryIdentity(log));
+          yield log;
+        }
+
+        // The final read of a finished day succeeded: move to the next day
+        // right away instead of waiting a full interval.
+        if (dayOver) {
+          this.day = nextDay(polledDay);
+          this.seen = new Set();
+          continue;
+        }
+      }
+
+      await this.sleep(this.nextDelay());
+    }
+  }
+
+  /**
+   * Read the watched day and return entries not yet delivered, oldest first.
+   * The very first read of a fresh watcher only records what already exists.
+   */
+  private async poll(day: string): Promise<LogEntry[]> {
+    const logs = await this.source.listDay(day, {
+      controller: this.options.controller,
+      tags: this.options.tags,
+      tagQueryMode: this.options.tagQueryMode,
+      includeTxid: this.options.includeTxid,
+      pageSize: this.options.pageSize,
+      maxPages: this.options.maxPages,
+      sortOrder: 'asc'
+    });
+
+    if (!this.primed) {
+      for (const log of logs) {
+        this.seen.add(entryIdentity(log));
+      }
+      this.primed = true;
+      return [];
+    }
+
+    return logs.filter(log => !this.seen.has(entryIdentity(log)));
+  }
+
+  /**
+   * Poll interval, growing exponentially while consecutive polls fail.
+   */
+  private nextDelay(): number {
+    const interval = this.options.intervalMs ?? 10_000;
+    if (this.failures === 0) return interval;
+
+    const factor = this.options.backoffFactor ?? 2;
+    const maxInterval = this.options.maxIntervalMs ?? 5 * 60_000;
+    return Math.min(interval * Math.pow(factor, this.failures), maxInterval);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this.wake = resolve;
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.wake = null;
+        resolve();
+      }, ms);
+    });
+  }
+}
+
+function entryIdentity(log: LogEntry): string {
+  return `${log.controller ?? ''}\u0000${log.key}`;
+}
+
+function nextDay(day: string): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
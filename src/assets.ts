@@ -0,0 +1,79 @@
+import { Hash, StorageUtils, Utils } from '@bsv/sdk';
+import { AssetDescriptor } from './types.js';
+import { InvalidEntryError } from './errors.js';
+
+/**
+ * Turn a bare URL into a descriptor, copying descriptors.
+ *
+ * @throws {InvalidEntryError} If there is no URL
+ */
+export function toDescriptor(asset: string | AssetDescriptor): AssetDescriptor {
+  const descriptor = typeof asset === 'string' ? { url: asset } : asset;
+  if (descriptor == null || typeof descriptor.url !== 'string' || !descriptor.url) {
+    throw new InvalidEntryError(`Invalid asset: ${JSON.stringify(asset)}`);
+  }
+  return readDescriptor(descriptor)!;
+}
+
+/**
+ * Read stored assets: descriptors, or URL strings from entries written
+ * before descriptors. Malformed items are dropped.
+ */
+export function readAssets(raw: unknown): AssetDescriptor[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return raw
+    .map(item => typeof item === 'string' ? { url: item } : readDescriptor(item))
+    .filter((item): item is AssetDescriptor => item !== undefined);
+}
+
+/**
+ * Describe content just uploaded to UHRP storage.
+ */
+export function describeUpload(
+  data: Uint8Array,
+  url: string,
+  mimeType: string,
+  retentionMinutes: number,
+  uploadedAt: Date,
+  filename?: string
+): AssetDescriptor {
+  const descriptor: AssetDescriptor = {
+    url,
+    mimeType,
+    size: data.length,
+    hash: sha256Hex(data),
+    expiresAt: new Date(uploadedAt.getTime() + retentionMinutes * 60 * 1000).toISOString()
+  };
+  if (filename) descriptor.filename = filename;
+  return descriptor;
+}
+
+/**
+ * The SHA-256 the content of an asset must have, if known: the hash a UHRP
+ * URL commits to, else the descriptor's.
+ */
+export function expectedHash(asset: AssetDescriptor): string | undefined {
+  if (isUhrpURL(asset.url)) {
+    return Utils.toHex(StorageUtils.getHashFromURL(asset.url));
+  }
+  return asset.hash;
+}
+
+export function isUhrpURL(url: string): boolean {
+  return !/^https?:\/\//i.test(url) && StorageUtils.isValidURL(url);
+}
+
+export function sha256Hex(data: Uint8Array): string {
+  return Utils.toHex(Hash.sha256(Array.from(data)));
+}
+
+function readDescriptor(raw: any): AssetDescriptor | undefined {
+  if (raw == null || typeof raw !== 'object' || typeof raw.url !== 'string') return undefined;
+  const descriptor: AssetDescriptor = { url: raw.url };
+  if (typeof raw.mimeType === 'string') descriptor.mimeType = raw.mimeType;
+  if (typeof raw.size === 'number' && Number.isFinite(raw.size)) descriptor.size = raw.size;
+  if (typeof raw.filename === 'string') descriptor.filename = raw.filename;
+  if (typeof raw.hash === 'string') descriptor.hash = raw.hash;
+  if (typeof raw.expiresAt === 'string') descriptor.expiresAt = raw.expiresAt;
+  return descriptor;
+}
@@ -0,0 +1,319 @@
+import { parseArgs } from 'node:util';
+import { GlossError } from './errors.js';
+import { GlossClient } from './GlossClient.js';
+import { ExportFormat, GlossConfig, LogEntry, LogLevel, RangeOptions } from './types.js';
+
+/**
+ * What the CLI needs from its environment; replaced in tests.
+ */
+export interface CliDeps {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  env: Record<string, string | undefined>;
+  readFile: (path: string) => Promise<Uint8Array>;
+  writeFile: (path: string, data: string) => Promise<void>;
+  createClient: (config: GlossConfig) => GlossClient;
+}
+
+/**
+ * Settings read from a config file, env vars and flags (later ones win).
+ */
+export interface CliSettings {
+  networkPreset?: 'mainnet' | 'testnet';
+  walletMode?: 'auto' | 'local';
+  timeZone?: string;
+}
+
+const USAGE = `Usage: gloss <command> [options]
+
+Commands:
+  log <text...>          Post an entry (--tag, --attach <file>, --mime, --level, --allow-secrets,
+                         --idempotency-key <id>)
+  ls [from] [to]         List a day or range; default today (--controller, --tag, --any, --limit)
+  history <key>          Show every revision of an entry
+  edit <key> <text...>   Replace the text of one of your entries (--tag, --allow-secrets)
+  rm <key|day>           Remove one of your entries (--reason) or a whole day
+  export <from> [to]     Export a range (--format ndjson|markdown|atom|json-feed, --out <file>)
+
+Options:
+  --json                 Print stable JSON instead of tables
+  --network <preset>     mainnet or testnet       (env GLOSS_NETWORK)
+  --wallet-mode <mode>   auto or local            (env GLOSS_WALLET_MODE)
+  --time-zone <zone>     IANA time zone or UTC    (env GLOSS_TIME_ZONE)
+  --config <file>        JSON settings file       (env GLOSS_CONFIG, default ~/.glossrc.json)
+  -h, --help             Show this help
+`;
+
+const MIME_TYPES: Record<string, string> = {
+  gif: 'image/gif',
+  htm: 'text/html',
+  html: 'text/html',
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  json: 'application/json',
+  log: 'text/plain',
+  md: 'text/markdown',
+  pdf: 'application/pdf',
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  txt: 'text/plain',
+  webp: 'image/webp'
+};
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A missing or malformed argument: reported with the usage text, exit code 2.
+ */
+class UsageError extends Error {}
+
+/**
+ * Run the `gloss` command line with the given arguments.
+ *
+ * @returns The process exit code: 0 on success, 1 on failure, 2 on usage
+ *   errors, 3 on transient failures worth retrying
+ */
+export async function runCli(args: string[], deps: Partial<CliDeps> = {}): Promise<number> {
+  const io = { ...defaultDeps(), ...deps };
+
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean' },
+        network: { type: 'string' },
+        'wallet-mode': { type: 'string' },
+        'time-zone': { type: 'string' },
+        config: { type: 'string' },
+        tag: { type: 'string', multiple: true },
+        any: { type: 'boolean' },
+        attach: { type: 'string' },
+        mime: { type: 'string' },
+        level: { type: 'string' },
+        'allow-secrets': { type: 'boolean' },
+        'idempotency-key': { type: 'string' },
+        controller: { type: 'string' },
+        limit: { type: 'string' },
+        reason: { type: 'string' },
+        format: { type: 'string' },
+        out: { type: 'string' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (error: any) {
+    io.stderr(`gloss: ${error?.message ?? error}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...rest] = positionals;
+  if (values.help || command === 'help') {
+    io.stdout(USAGE);
+    return 0;
+  }
+  if (!command) {
+    io.stderr(USAGE);
+    return 2;
+  }
+
+  try {
+    const settings = await resolveSettings(values, io);
+    const client = io.createClient(settings);
+    const json = Boolean(values.json);
+    const filters: RangeOptions = {
+      controller: values.controller,
+      tags: values.tag,
+      tagQueryMode: values.any ? 'any' : undefined,
+      limit: values.limit !== undefined ? parseCount(values.limit) : undefined
+    };
+
+    switch (command) {
+      case 'log': {
+        const text = requireText(rest);
+        const options = {
+          tags: values.tag,
+          level: values.level as LogLevel | undefined,
+          allowSecrets: values['allow-secrets'],
+          idempotencyKey: values['idempotency-key']
+        };
+        const entry = values.attach
+          ? await client.logWithAsset(text, await io.readFile(values.attach), values.mime ?? guessMime(values.attach), {
+            ...options,
+            filename: values.attach.split(/[\\/]/).pop()
+          })
+          : await client.log(text, options);
+        io.stdout(json ? toJson(entry) : `${entry.key}\n`);
+        return 0;
+      }
+
+      case 'ls': {
+        const [from, to] = rest;
+        const entries = from === undefined || from === 'today'
+          ? await client.listToday(filters)
+          : await client.listRange(requireDay(from), requireDay(to ?? from), filters);
+        io.stdout(json ? toJson(entries) : formatTable(entries));
+        return 0;
+      }
+
+      case 'history': {
+        const history = await client.getLogHistory(requireArg(rest[0], 'an entry key'));
+        io.stdout(json ? toJson(history) : formatTable(history));
+        return 0;
+      }
+
+      case 'edit': {
+        const key = requireArg(rest[0], 'an entry key');
+        const updated = await client.updateEntryByKey(key, requireText(rest.slice(1)), {
+          tags: values.tag,
+          allowSecrets: values['allow-secrets']
+        });
+        io.stdout(json ? toJson(updated) : `${updated.key}\n`);
+        return 0;
+      }
+
+      case 'rm': {
+        const target = requireArg(rest[0], 'an entry key or day');
+        const removed = DAY.test(target)
+          ? await client.removeDay(target)
+          : await client.removeEntry(target, { reason: values.reason });
+        if (json) io.stdout(toJson({ removed }));
+        if (!removed) {
+          io.stderr(`gloss: nothing of yours was removed for ${target}\n`);
+          return 1;
+        }
+        if (!json) io.stdout(`removed ${target}\n`);
+        return 0;
+      }
+
+      case 'export': {
+        const from = requireDay(rest[0]);
+        const format = (values.format ?? 'ndjson') as ExportFormat;
+        const document = await client.exportEntries(from, requireDay(rest[1] ?? from), format, filters);
+        if (values.out) {
+          await io.writeFile(values.out, document);
+        } else {
+          io.stdout(document);
+        }
+        return 0;
+      }
+
+      default:
+        io.stderr(`gloss: unknown command ${command}\n\n${USAGE}`);
+        return 2;
+    }
+  } catch (error: any) {
+    if (error instanceof UsageError) {
+      io.stderr(`gloss: ${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    io.stderr(`gloss: ${error?.message ?? error}\n`);
+    return error instanceof GlossError && error.retryable ? 3 : 1;
+  }
+}
+
+/**
+ * Merge settings from the config file, then env vars, then flags.
+ */
+async function resolveSettings(values: Record<string, unknown>, io: CliDeps): Promise<CliSettings> {
+  const explicitPath = (values.config as string | undefined) ?? io.env.GLOSS_CONFIG;
+  const path = explicitPath ?? (io.env.HOME ? `${io.env.HOME}/.glossrc.json` : undefined);
+
+  let file: CliSettings = {};
+  if (path) {
+    try {
+      file = JSON.parse(new TextDecoder().decode(await io.readFile(path)));
+    } catch (error: any) {
+      // The default file is optional; an explicitly named one is not.
+      if (explicitPath || error?.code !== 'ENOENT') {
+        throw new Error(`Cannot read config file ${path}: ${error?.message ?? error}`);
+      }
+    }
+  }
+
+  const settings: CliSettings = {
+    networkPreset: (values.network as string | undefined) ?? io.env.GLOSS_NETWORK ?? file.networkPreset,
+    walletMode: (values['wallet-mode'] as string | undefined) ?? io.env.GLOSS_WALLET_MODE ?? file.walletMode,
+    timeZone: (values['time-zone'] as string | undefined) ?? io.env.GLOSS_TIME_ZONE ?? file.timeZone
+  } as CliSettings;
+
+  if (settings.networkPreset && !['mainnet', 'testnet'].includes(settings.networkPreset)) {
+    throw new Error(`Invalid network: ${settings.networkPreset} (expected mainnet or testnet)`);
+  }
+  if (settings.walletMode && !['auto', 'local'].includes(settings.walletMode)) {
+    throw new Error(`Invalid wallet mode: ${settings.walletMode} (expected auto or local)`);
+  }
+  return Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined)) as CliSettings;
+}
+
+function defaultDeps(): CliDeps {
+  return {
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text),
+    env: process.env,
+    readFile: async path => (await import('node:fs/promises')).readFile(path),
+    writeFile: async (path, data) => (await import('node:fs/promises')).writeFile(path, data, 'utf8'),
+    createClient: config => new GlossClient(config)
+  };
+}
+
+/**
+ * Entries as a table: time, author, tags and the first line of the text.
+ */
+function formatTable(entries: LogEntry[]): string {
+  if (entries.length === 0) return 'No entries.\n';
+
+  const rows = entries.map(entry => [
+    entry.key,
+    shortKey(entry.controller ?? ''),
+    (entry.tags ?? []).join(','),
+    (entry.deleted ? '(deleted) ' : '') + (entry.redacted ? '(private)' : entry.text.split('\n')[0])
+  ]);
+  const header = ['KEY', 'AUTHOR', 'TAGS', 'TEXT'];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  const line = (cells: string[]) => cells
+    .map((cell, column) => column === cells.length - 1 ? cell : cell.padEnd(widths[column]))
+    .join('  ')
+    .trimEnd();
+
+  return [line(header), ...rows.map(line)].join('\n') + '\n';
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, null, 2) + '\n';
+}
+
+function shortKey(identityKey: string): string {
+  return identityKey.length > 12 ? `${identityKey.slice(0, 10)}…` : identityKey;
+}
+
+function guessMime(path: string): string {
+  const extension = path.split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES[extension] ?? 'application/octet-stream';
+}
+
+function requireArg(value: string | undefined, what: string): string {
+  if (!value) throw new UsageError(`Expected ${what}`);
+  return value;
+}
+
+function requireText(words: string[]): string {
+  const text = words.join(' ').trim();
+  if (!text) throw new UsageError('Expected the entry text');
+  return text;
+}
+
+function requireDay(value: string | undefined): string {
+  const time = value && DAY.test(value) ? Date.parse(`${value}T00:00:00Z`) : NaN;
+  if (Number.isNaN(time) || new Date(time).toISOString().slice(0, 10) !== value) {
+    throw new UsageError(`Invalid date: ${String(value)} (expected YYYY-MM-DD)`);
+  }
+  return value as string;
+}
+
+function parseCount(value: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) throw new UsageError(`Invalid count: ${value}`);
+  return count;
+}
@@ -0,0 +1,161 @@
+import { SymmetricKey, Utils, WalletInterface, WalletProtocol } from '@bsv/sdk';
+import { readAssets } from './assets.js';
+import { readContext, readFields, readLevel } from './structured.js';
+import { LogEntry } from './types.js';
+
+/**
+ * Stored form of a private entry's `text`, `tags`, `assets` and structured
+ * data.
+ *
+ * The fields are encrypted once with a random content key (AES-GCM). That
+ * content key is then wrapped for each recipient through the wallet, using
+ * the author's and recipient's BRC-42 shared key under the gloss protocol ID
+ * and the entry key as key ID.
+ */
+export interface SealedPayload {
+  /** Base64 AES-GCM ciphertext of `{ text, tags, assets, level, fields, context }` */
+  ciphertext: string;
+  /** The content key wrapped for each recipient (`'self'` or an identity key) */
+  recipients: Array<{ to: string; key: string }>;
+}
+
+/**
+ * A parsed entry whose private fields are still encrypted.
+ */
+export interface SealedLogEntry extends LogEntry {
+  sealed: SealedPayload;
+}
+
+/**
+ * The value stored for a private entry: its public fields and the sealed
+ * payload.
+ */
+export type SealedValue = Pick<LogEntry, 'key' | 'at' | 'controller' | 'parent' | 'idempotencyKey'> & {
+  sealed: SealedPayload;
+};
+
+export function isSealed(log: LogEntry): log is SealedLogEntry {
+  return (log as SealedLogEntry).sealed != null;
+}
+
+/**
+ * Encrypt an entry's private fields for the given recipients.
+ * Returns the value to store: the public fields plus the sealed payload.
+ */
+export async function sealEntry(
+  wallet: WalletInterface,
+  protocolID: WalletProtocol,
+  entry: LogEntry,
+  recipients: string[]
+): Promise<SealedValue> {
+  const contentKey = SymmetricKey.fromRandom();
+  const plaintext = Utils.toArray(JSON.stringify({
+    text: entry.text,
+    tags: entry.tags ?? [],
+    assets: entry.assets ?? [],
+    level: entry.level,
+    fields: entry.fields,
+    context: entry.context
+  }), 'utf8');
+
+  const wrapped: SealedPayload['recipients'] = [];
+  for (const to of [...new Set(recipients)]) {
+    const { ciphertext } = await wallet.encrypt({
+      plaintext: contentKey.toArray('be', 32),
+      protocolID,
+      keyID: entry.key,
+      counterparty: to
+    });
+    wrapped.push({ to, key: Utils.toBase64(ciphertext) });
+  }
+
+  const sealed: SealedPayload = {
+    ciphertext: Utils.toBase64(contentKey.encrypt(plaintext) as number[]),
+    recipients: wrapped
+  };
+
+  // The parent reference stays public so conversations can be assembled
+  // without reading the replies, and the idempotency key so retries can be
+  // matched without decrypting.
+  return {
+    key: entry.key,
+    at: entry.at,
+    controller: entry.controller,
+    parent: entry.parent,
+    idempotencyKey: entry.idempotencyKey,
+    sealed
+  };
+}
+
+/**
+ * Decrypt a sealed entry for the reader.
+ * The author can unwrap any recipient's copy of the content key; anyone else
+ * only the copy addressed to their identity key.
+ *
+ * @throws {Error} If the reader is not a recipient or decryption fails
+ */
+export async function unsealEntry(
+  wallet: WalletInterface,
+  protocolID: WalletProtocol,
+  reader: string,
+  log: SealedLogEntry
+): Promise<LogEntry> {
+  const isAuthor = log.controller === reader;
+  const candidates = log.sealed.recipients.filter(recipient => isAuthor || recipient.to === reader);
+
+  for (const recipient of candidates) {
+    try {
+      const { plaintext } = await wallet.decrypt({
+        ciphertext: Utils.toArray(recipient.key, 'base64'),
+        protocolID,
+        keyID: log.key,
+        counterparty: isAuthor ? recipient.to : log.controller
+      });
+      const contentKey = new SymmetricKey(plaintext);
+      const payload = JSON.parse(Utils.toUTF8(contentKey.decrypt(Utils.toArray(log.sealed.ciphertext, 'base64')) as number[]));
+
+      const opened: LogEntry = {
+        key: log.key,
+        at: log.at,
+        text: typeof payload.text === 'string' ? payload.text : '',
+        tags: Array.isArray(payload.tags) ? payload.tags.filter((tag: unknown) => typeof tag === 'string') : [],
+        assets: readAssets(payload.assets) ?? [],
+        controller: log.controller,
+        encrypted: true,
+        recipients: log.sealed.recipients.map(r => r.to),
+        parent: log.parent
+      };
+      if (log.idempotencyKey) opened.idempotencyKey = log.idempotencyKey;
+      const level = readLevel(payload.level);
+      const structured = readFields(payload.fields);
+      const context = readContext(payload.context);
+      if (level) opened.level = level;
+      if (structured) opened.fields = structured;
+      if (context) opened.context = context;
+      return opened;
+    } catch {
+      // Try the next wrapped copy, if any.
+    }
+  }
+
+  throw new Error(`Entry ${log.key} is not readable by ${reader}`);
+}
+
+/**
+ * Placeholder for a private entry the reader cannot decrypt.
+ */
+export function redactEntry(log: SealedLogEntry): LogEntry {
+  return {
+    key: log.key,
+    at: log.at,
+    text: '',
+    tags: [],
+    assets: [],
+    controller: log.controller,
+    encrypted: true,
+    redacted: true,
+    recipients: log.sealed.recipients.map(r => r.to),
+    parent: log.parent,
+    idempotencyKey: log.idempotencyKey
+  };
+}
@@ -0,0 +1,150 @@
+import { GlossErrorCode, PolicyFinding, RetryOptions } from './types.js';
+
+/**
+ * Options shared by every GlossError constructor.
+ */
+export interface GlossErrorOptions {
+  /** Override whether trying the same call again may succeed */
+  retryable?: boolean;
+  /** The underlying error, usually from the SDK, wallet or network */
+  cause?: unknown;
+}
+
+/**
+ * Base class of every error thrown by GlossClient.
+ * `code` identifies the kind of failure and `retryable` tells whether the
+ * same call may succeed later ("try again") or will keep failing ("give up").
+ */
+export class GlossError extends Error {
+  readonly code: GlossErrorCode;
+  readonly retryable: boolean;
+
+  constructor(code: GlossErrorCode, message: string, options: GlossErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = new.target.name;
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+/** The entry, day or asset does not exist. */
+export class NotFoundError extends GlossError {
+  constructor(message: string, options: GlossErrorOptions = {}) {
+    super('NOT_FOUND', message, { retryable: false, ...options });
+  }
+}
+
+/** The entry belongs to another controller. */
+export class NotOwnerError extends GlossError {
+  constructor(message: string, options: GlossErrorOptions = {}) {
+    super('NOT_OWNER', message, { retryable: false, ...options });
+  }
+}
+
+/** The wallet could not be reached or refused to sign, encrypt or fund. */
+export class WalletUnavailableError extends GlossError {
+  constructor(message: string, options: GlossErrorOptions = {}) {
+    super('WALLET_UNAVAILABLE', message, { retryable: true, ...options });
+  }
+}
+
+/** The overlay (or configured store) or an asset host could not be reached. */
+export class OverlayUnavailableError extends GlossError {
+  constructor(message: string, options: GlossErrorOptions = {}) {
+    super('OVERLAY_UNAVAILABLE', message, { retryable: true, ...options });
+  }
+}
+
+/** Another transaction spent the lineage tip first; retrying reads the new tip. */
+export class DoubleSpendConflictError extends GlossError {
+  constructor(message: string, options: GlossErrorOptions = {}) {
+    super('DOUBLE_SPEND_CONFLICT', message, { retryable: true, ...options });
+  }
+}
+
+/** The entry or input is malformed and will be rejected every time. */
+export class InvalidEntryError extends GlossError {
+  constructor(message: string, options: GlossErrorOptions = {}) {
+    super('INVALID_ENTRY', message, { retryable: false, ...options });
+  }
+}
+
+/** Publishing an asset to UHRP storage failed. */
+export class UploadFailedError extends GlossError {
+  constructor(message: string, options: GlossErrorOptions = {}) {
+    super('UPLOAD_FAILED', message, { retryable: true, ...options });
+  }
+}
+
+/** The content policy found a secret or a broken limit; see `findings`. */
+export class PolicyViolationError extends GlossError {
+  readonly findings: PolicyFinding[];
+
+  constructor(message: string, findings: PolicyFinding[], options: GlossErrorOptions = {}) {
+    super('POLICY_VIOLATION', message, { retryable: false, ...options });
+    this.findings = findings;
+  }
+}
+
+type GlossErrorClass = new (message: string, options?: GlossErrorOptions) => GlossError;
+
+/**
+ * Classify an error thrown by the SDK, wallet, store or network.
+ * GlossErrors pass through unchanged; double spends and wallet failures are
+ * recognized; anything else becomes a `fallback`, keeping the original
+ * message and error as the cause.
+ */
+export function toGlossError(error: unknown, fallback: GlossErrorClass): GlossError {
+  if (error instanceof GlossError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const name = (error as any)?.name;
+  if (isDoubleSpend(error)) {
+    return new DoubleSpendConflictError(message, { cause: error });
+  }
+  if (name === 'WERR_INSUFFICIENT_FUNDS') {
+    // The wallet is there but cannot pay; retrying will not help.
+    return new WalletUnavailableError(message, { cause: error, retryable: false });
+  }
+  if (/no wallet available/i.test(message)) {
+    return new WalletUnavailableError(message, { cause: error });
+  }
+  if (name === 'WERR_INVALID_PARAMETER') {
+    return new InvalidEntryError(message, { cause: error });
+  }
+  return new fallback(message, { cause: error });
+}
+
+/**
+ * Run an operation, retrying retryable failures with exponential backoff.
+ * Failures are classified with `classify` first, so the error thrown after
+ * the last attempt is always a GlossError.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  classify: (error: unknown) => GlossError,
+  policy: RetryOptions = {}
+): Promise<T> {
+  const attempts = Math.max(1, Math.floor(policy.attempts ?? 1));
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (caught) {
+      const error = classify(caught);
+      const retry = policy.shouldRetry ? policy.shouldRetry(error, attempt) : error.retryable;
+      if (attempt >= attempts || !retry) throw error;
+
+      const base = policy.baseDelayMs ?? 500;
+      const delay = Math.min(base * Math.pow(2, attempt - 1), policy.maxDelayMs ?? 10_000);
+      policy.onRetry?.(error, attempt, delay);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+function isDoubleSpend(error: any): boolean {
+  if (error?.name === 'WERR_REVIEW_ACTIONS' && Array.isArray(error.reviewActionResults)) {
+    return error.reviewActionResults.some((result: any) => result?.status === 'doubleSpend');
+  }
+  return /double[- ]?spen[dt]/i.test(error?.message ?? '');
+}
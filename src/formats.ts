@@ -0,0 +1,199 @@
+import { ExportRecord, LogEntry } from './types.js';
+import { InvalidEntryError } from './errors.js';
+
+/**
+ * Document metadata shared by the feed formats.
+ */
+export interface FeedMeta {
+  title: string;
+  /** Stable feed identifier */
+  id: string;
+  /** Timestamp used when the feed has no entries */
+  updated: string;
+  feedUrl?: string;
+  homePageUrl?: string;
+}
+
+/**
+ * Serialize export records as newline-delimited JSON, one record per line.
+ */
+export function toNdjson(records: ExportRecord[]): string {
+  return records.map(record => JSON.stringify(record) + '\n').join('');
+}
+
+/**
+ * Parse NDJSON export lines. Blank lines are ignored.
+ *
+ * @throws {InvalidEntryError} If a line is not a JSON object with a key, timestamp and text
+ */
+export function parseNdjson(ndjson: string): ExportRecord[] {
+  const records: ExportRecord[] = [];
+  ndjson.split('\n').forEach((line, i) => {
+    if (!line.trim()) return;
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch (error: any) {
+      throw new InvalidEntryError(`Invalid NDJSON on line ${i + 1}: ${error?.message ?? error}`);
+    }
+    if (!isExportedEntry(record)) {
+      throw new InvalidEntryError(`Invalid NDJSON on line ${i + 1}: expected an entry with key, at and text`);
+    }
+    if (record.revisions !== undefined &&
+      (!Array.isArray(record.revisions) || !record.revisions.every(isExportedEntry))) {
+      throw new InvalidEntryError(`Invalid NDJSON on line ${i + 1}: revisions must be entries`);
+    }
+    records.push(record);
+  });
+  return records;
+}
+
+/**
+ * Render entries as a Markdown digest grouped by day, in the given order.
+ */
+export function toMarkdown(entries: LogEntry[], title: string): string {
+  const lines = [`# ${title}`, ''];
+  if (entries.length === 0) {
+    lines.push('_No entries._', '');
+  }
+
+  let currentDay: string | undefined;
+  for (const entry of entries) {
+    const day = entry.key.slice(0, 10);
+    if (day !== currentDay) {
+      lines.push(`## ${day}`, '');
+      currentDay = day;
+    }
+
+    const time = entry.key.slice(11, 13) + ':' + entry.key.slice(13, 15);
+    const level = entry.level && entry.level !== 'info' ? ` [${entry.level}]` : '';
+    const author = entry.controller ? ` **${shortKey(entry.controller)}**` : '';
+    const tags = (entry.tags ?? []).map(tag => ` \`#${tag}\``).join('');
+    const text = entry.redacted ? '_(private entry)_' : entry.text.split('\n').join('\n  ');
+    lines.push(`- ${time}${level}${author} ${text}${tags}`);
+    (entry.assets ?? []).forEach((asset, i) => {
+      const details = [asset.mimeType, asset.size !== undefined ? formatSize(asset.size) : undefined].filter(Boolean);
+      const suffix = details.length > 0 ? ` (${details.join(', ')})` : '';
+      lines.push(`  - [${asset.filename ?? `Asset ${i + 1}`}](${asset.url})${suffix}`);
+    });
+  }
+
+  if (currentDay) lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Render entries as an Atom 1.0 feed, in the given order.
+ */
+export function toAtom(entries: LogEntry[], meta: FeedMeta): string {
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(meta.id)}</id>`,
+    `  <title>${escapeXml(meta.title)}</title>`,
+    `  <updated>${escapeXml(newest(entries) ?? meta.updated)}</updated>`
+  ];
+  if (meta.feedUrl) lines.push(`  <link rel="self" href="${escapeXml(meta.feedUrl)}"/>`);
+  if (meta.homePageUrl) lines.push(`  <link rel="alternate" href="${escapeXml(meta.homePageUrl)}"/>`);
+
+  for (const entry of entries) {
+    lines.push(
+      '  <entry>',
+      `    <id>${escapeXml(entryId(entry))}</id>`,
+      `    <title>${escapeXml(headline(entry))}</title>`,
+      `    <updated>${escapeXml(entry.at)}</updated>`,
+      `    <author><name>${escapeXml(entry.controller ?? 'unknown')}</name></author>`,
+      `    <content type="text">${escapeXml(entry.text)}</content>`
+    );
+    for (const tag of entry.tags ?? []) {
+      lines.push(`    <category term="${escapeXml(tag)}"/>`);
+    }
+    for (const asset of entry.assets ?? []) {
+      const type = asset.mimeType ? ` type="${escapeXml(asset.mimeType)}"` : '';
+      const length = asset.size !== undefined ? ` length="${asset.size}"` : '';
+      lines.push(`    <link rel="enclosure" href="${escapeXml(asset.url)}"${type}${length}/>`);
+    }
+    lines.push('  </entry>');
+  }
+
+  lines.push('</feed>', '');
+  return lines.join('\n');
+}
+
+/**
+ * Render entries as a JSON Feed 1.1 document, in the given order.
+ * Gloss-specific fields go in each item's `_gloss` extension.
+ */
+export function toJsonFeed(entries: LogEntry[], meta: FeedMeta): string {
+  const feed: Record<string, unknown> = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: meta.title,
+    home_page_url: meta.homePageUrl,
+    feed_url: meta.feedUrl,
+    items: entries.map(entry => ({
+      id: entryId(entry),
+      title: headline(entry),
+      content_text: entry.text,
+      date_modified: entry.at,
+      authors: entry.controller ? [{ name: entry.controller }] : undefined,
+      tags: entry.tags && entry.tags.length > 0 ? entry.tags : undefined,
+      attachments: entry.assets && entry.assets.length > 0
+        ? entry.assets.map(asset => ({
+          url: asset.url,
+          mime_type: asset.mimeType ?? 'application/octet-stream',
+          title: asset.filename,
+          size_in_bytes: asset.size
+        }))
+        : undefined,
+      _gloss: {
+        key: entry.key,
+        controller: entry.controller,
+        txid: entry.txid,
+        level: entry.level,
+        fields: entry.fields,
+        context: entry.context,
+        parent: entry.parent
+      }
+    }))
+  };
+  return JSON.stringify(feed, null, 2) + '\n';
+}
+
+function isExportedEntry(value: any): boolean {
+  return value != null && typeof value === 'object' &&
+    typeof value.key === 'string' && /^\d{4}-\d{2}-\d{2}\/./.test(value.key) &&
+    typeof value.at === 'string' && typeof value.text === 'string';
+}
+
+function entryId(entry: LogEntry): string {
+  return `urn:gloss:${entry.controller ?? 'unknown'}:${entry.key}`;
+}
+
+// First line of the text, shortened for titles.
+function headline(entry: LogEntry): string {
+  const first = entry.text.split('\n')[0];
+  return first.length > 80 ? `${first.slice(0, 79)}…` : first;
+}
+
+function newest(entries: LogEntry[]): string | undefined {
+  return entries.reduce<string | undefined>((latest, entry) => !latest || entry.at > latest ? entry.at : latest, undefined);
+}
+
+function shortKey(identityKey: string): string {
+  return identityKey.length > 12 ? `${identityKey.slice(0, 10)}…` : identityKey;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
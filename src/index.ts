@@ -20,14 +20,103 @@
  */
 
 export { GlossClient } from './GlossClient.js';
+export { GlossCache, MemoryCacheStorage, FileCacheStorage } from './GlossCache.js';
+export { GlossDirectory, MemoryDirectoryStorage, FileDirectoryStorage } from './GlossDirectory.js';
+export { GlossOutbox, MemoryOutboxStorage, FileOutboxStorage } from './GlossOutbox.js';
+export { GlobalKVGlossStore, MemoryGlossStore } from './GlossStore.js';
+export { GlossWatcher } from './GlossWatcher.js';
+export { GlossTransport, attachConsole, createTransportStream } from './GlossTransport.js';
+export {
+  GlossError,
+  NotFoundError,
+  NotOwnerError,
+  WalletUnavailableError,
+  OverlayUnavailableError,
+  DoubleSpendConflictError,
+  InvalidEntryError,
+  UploadFailedError,
+  PolicyViolationError
+} from './errors.js';
+export type { GlossErrorOptions } from './errors.js';
+export { SchemaRegistry, CURRENT_SCHEMA_VERSION } from './schema.js';
+export type { EntryMigration } from './schema.js';
+export { LOG_LEVELS, STRUCTURED_LIMITS } from './structured.js';
+export { CONTENT_LIMITS } from './policy.js';
 export type { 
   GlossConfig, 
+  ActivityCounts,
+  ActivityStats,
+  AssetDescriptor,
+  CachedLineage,
+  CacheOptions,
+  CacheSnapshot,
+  CacheStorage,
+  CacheSyncResult,
+  ConsoleLike,
+  ContentPolicy,
+  DirectoryEntry,
+  DirectoryOptions,
+  DirectorySnapshot,
+  DirectoryStorage,
+  FeedEntry,
+  FeedOptions,
+  GlossStore,
   LogEntry, 
+  LogLevel,
+  LogContext,
+  FieldValue,
+  GlossErrorCode,
+  GlossMiddleware,
+  AfterWriteContext,
+  ErrorContext,
+  ReadContext,
+  WriteContext,
+  WriteOperation,
+  HttpFetch,
+  HttpResponse,
   DayChain,
+  DayResult,
+  DownloadOptions,
+  DownloadResult,
+  EntryRef,
+  EntryDiagnostic,
+  ExportFormat,
+  ExportOptions,
+  ExportRecord,
   CreateLogOptions, 
+  IdentityInfo,
+  ImportOptions,
+  ImportResult,
+  LogManyInput,
+  OutboxFlushResult,
+  OutboxOptions,
+  OutboxRecord,
+  OutboxStorage,
+  PolicyAction,
+  PolicyFinding,
   QueryOptions, 
+  RangeOptions,
+  RemoveEntryOptions,
+  RetryOptions,
+  SearchOptions,
+  SearchResult,
+  StatsOptions,
+  StoreGetOptions,
+  StoreQuery,
+  StoreRecord,
+  StoreWriteOptions,
+  ThreadNode,
+  ThreadOptions,
+  TransportFlushResult,
+  TransportOptions,
+  TransportRecord,
+  TransportStream,
+  TodayOptions,
+  WatchCursor,
+  WatchOptions,
   UploadResult, 
-  UploadOptions 
+  UploadOptions,
+  VerificationStatus
 } from './types.js';
 
 // Re-export the protocol ID constant for advanced use cases
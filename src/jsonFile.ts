@@ -0,0 +1,94 @@
+// Pending writes per path, so writes to one file are applied in call order.
+const queues = new Map<string, Promise<unknown>>();
+let writes = 0;
+
+/**
+ * Read and parse a JSON file (Node.js only).
+ *
+ * @returns The parsed value, or undefined if the file does not exist
+ */
+export async function readJsonFile(path: string): Promise<unknown> {
+  const { readFile } = await import('node:fs/promises');
+  try {
+    return JSON.parse(await readFile(path, 'utf8'));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Replace a JSON file (Node.js only). Each write goes to a temporary file of
+ * its own that is renamed over the target, so a crash mid-write leaves the
+ * previous contents intact. Writes to the same path never overlap.
+ */
+export function writeJsonFile(path: string, value: unknown, space?: number): Promise<void> {
+  const data = JSON.stringify(value, null, space);
+  const tmp = `${path}.${process.pid}.${++writes}.tmp`;
+  const previous = queues.get(path) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(async () => {
+    const { writeFile, rename, rm } = await import('node:fs/promises');
+    try {
+      await writeFile(tmp, data, 'utf8');
+      await rename(tmp, path);
+    } catch (error) {
+      await rm(tmp, { force: true }).catch(() => undefined);
+      throw error;
+    }
+  });
+  queues.set(path, next);
+  // Forget the queue once it is drained.
+  next.catch(() => undefined).then(() => {
+    if (queues.get(path) === next) queues.delete(path);
+  });
+  return next;
+}
+
+/**
+ * Keeps a snapshot in process memory only. Snapshots are stored as JSON, so
+ * the storage holds what a file would and callers never share objects with it.
+ */
+export class MemorySnapshotStorage<T> {
+  private json: string | undefined;
+
+  async load(): Promise<T | undefined> {
+    return this.json === undefined ? undefined : JSON.parse(this.json);
+  }
+
+  async save(snapshot: T): Promise<void> {
+    this.json = JSON.stringify(snapshot);
+  }
+}
+
+/**
+ * Persists a snapshot to a JSON file with writeJsonFile() (Node.js only).
+ * `parse` checks what was read, and returns undefined for a file that does
+ * not hold a snapshot.
+ */
+export class JsonFileSnapshotStorage<T> {
+  constructor(
+    private path: string,
+    private parse: (value: unknown) => T | undefined,
+    private space?: number
+  ) {}
+
+  async load(): Promise<T | undefined> {
+    const value = await readJsonFile(this.path);
+    return value === undefined ? undefined : this.parse(value);
+  }
+
+  async save(snapshot: T): Promise<void> {
+    await writeJsonFile(this.path, snapshot, this.space);
+  }
+}
+
+/**
+ * Load a storage's snapshot and apply it. Callers await the returned promise
+ * before each use, so a storage that cannot be loaded fails every call
+ * instead of crashing the process with an unhandled rejection.
+ */
+export function loadSnapshot<T>(storage: { load(): Promise<T> }, apply: (snapshot: T) => void): Promise<void> {
+  const ready = storage.load().then(apply);
+  ready.catch(() => undefined);
+  return ready;
+}
@@ -0,0 +1,97 @@
+import { InvalidEntryError, toGlossError } from './errors.js';
+import { AfterWriteContext, ErrorContext, GlossMiddleware, LogEntry, ReadContext, WriteContext } from './types.js';
+
+/**
+ * Runs registered middleware hooks in registration order.
+ */
+export class MiddlewareChain {
+  private middleware: GlossMiddleware[] = [];
+  // Errors already passed to onError, so nested calls report them once.
+  private reported = new WeakSet<object>();
+
+  constructor(middleware: GlossMiddleware[] = []) {
+    middleware.forEach(item => this.use(item));
+  }
+
+  use(middleware: GlossMiddleware): void {
+    this.middleware.push(middleware);
+  }
+
+  /**
+   * Pass an entry through every beforeWrite hook. A hook may change the
+   * entry or return a new one; its key, timestamp and controller are kept.
+   *
+   * @throws {GlossError} If a hook rejects the entry (InvalidEntryError unless it threw a GlossError)
+   */
+  async beforeWrite(entry: LogEntry, context: WriteContext): Promise<LogEntry> {
+    let current = entry;
+    for (const { beforeWrite } of this.middleware) {
+      if (!beforeWrite) continue;
+      try {
+        current = (await beforeWrite(current, context)) ?? current;
+      } catch (error) {
+        throw toGlossError(error, InvalidEntryError);
+      }
+    }
+    return { ...current, key: entry.key, at: entry.at, controller: entry.controller };
+  }
+
+  /**
+   * Tell every afterWrite hook about stored entries. The write has already
+   * happened, so hook failures go to onError instead of the caller.
+   */
+  async afterWrite(entries: LogEntry[], context: AfterWriteContext): Promise<void> {
+    for (const { afterWrite } of this.middleware) {
+      if (!afterWrite) continue;
+      for (const entry of entries) {
+        try {
+          await afterWrite(entry, context);
+        } catch (error) {
+          await this.reportError(error, { operation: 'afterWrite' });
+        }
+      }
+    }
+  }
+
+  /**
+   * Pass read results through every afterRead hook.
+   */
+  async afterRead(entries: LogEntry[], context: ReadContext): Promise<LogEntry[]> {
+    let current = entries;
+    for (const { afterRead } of this.middleware) {
+      if (afterRead) current = (await afterRead(current, context)) ?? current;
+    }
+    return current;
+  }
+
+  /**
+   * Run a public operation, reporting its failure to every onError hook.
+   */
+  async guard<T>(operation: string, run: () => Promise<T>): Promise<T> {
+    try {
+      return await run();
+    } catch (error) {
+      await this.reportError(error, { operation });
+      throw error;
+    }
+  }
+
+  /**
+   * Call every onError hook once per error. Failing hooks are ignored so
+   * they cannot hide the original error.
+   */
+  async reportError(error: unknown, context: ErrorContext): Promise<void> {
+    if (error != null && typeof error === 'object') {
+      if (this.reported.has(error)) return;
+      this.reported.add(error);
+    }
+    const reported = error instanceof Error ? error : new Error(String(error));
+    for (const { onError } of this.middleware) {
+      try {
+        await onError?.(reported, context);
+      } catch {
+        // Ignored; see above.
+      }
+    }
+  }
+}
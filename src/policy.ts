@@ -0,0 +1,260 @@
+import { PrivateKey } from '@bsv/sdk';
+import { PolicyViolationError } from './errors.js';
+import { ContentPolicy, LogEntry, PolicyAction, PolicyFinding } from './types.js';
+
+/**
+ * Defaults of the content policy.
+ */
+export const CONTENT_LIMITS = {
+  /** Maximum length of the entry text */
+  maxTextLength: 10_000,
+  /** Maximum number of tags */
+  maxTags: 16,
+  /** Format every tag must match */
+  tagPattern: /^[A-Za-z0-9][A-Za-z0-9._:/-]{0,63}$/,
+  /** Entropy in bits per character from which a long token is treated as a secret */
+  minEntropy: 4
+} as const;
+
+/**
+ * Built-in detectors, by rule name. Where a pattern has a capture group,
+ * only the group is the secret (e.g. the value after `password=`).
+ */
+const DETECTORS: Record<string, RegExp> = {
+  privateKey: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/,
+  wif: /\b[5KLc9][1-9A-HJ-NP-Za-km-z]{50,51}\b/,
+  jwt: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/,
+  awsAccessKey: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/,
+  awsSecretKey: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})/i,
+  azureKey: /AccountKey=([A-Za-z0-9+/=]{40,})/,
+  googleApiKey: /\bAIza[0-9A-Za-z_-]{35}/,
+  githubToken: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/,
+  slackToken: /\bxox[abposr]-[A-Za-z0-9-]{10,}/,
+  stripeKey: /\b[rs]k_(?:live|test)_[0-9A-Za-z]{16,}/,
+  apiKey: /\bsk-[A-Za-z0-9_-]{20,}/,
+  credential: /\b(?:api[_-]?key|access[_-]?token|auth[_-]?token|secret|password|passwd|private[_-]?key)["']?\s*[:=]\s*["']?([^\s"',;]{8,})/i,
+  email: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/
+};
+
+// Candidates for the entropy check, and URLs, which are left to the detectors above.
+const TOKEN = /[A-Za-z0-9+/_-]{24,}={0,2}/g;
+const URL_PATTERN = /\b[a-z][a-z0-9+.-]*:\/\/\S+/gi;
+
+interface Match {
+  rule: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Enforces a ContentPolicy on entries before they are published.
+ */
+export class ContentGuard {
+  private action: PolicyAction;
+  private detectors: Array<[string, RegExp]>;
+  private entropy: boolean;
+  private minEntropy: number;
+  private maxTextLength: number;
+  private maxTags: number;
+  private tagPattern: RegExp;
+
+  constructor(policy: ContentPolicy = {}) {
+    const disabled = new Set(policy.disable ?? []);
+    this.action = policy.action ?? 'confirm';
+    this.detectors = Object.entries({ ...DETECTORS, ...policy.patterns })
+      .filter(([rule]) => !disabled.has(rule))
+      .map(([rule, pattern]) => [rule, new RegExp(pattern.source, withFlags(pattern.flags))]);
+    this.entropy = !disabled.has('highEntropy');
+    this.minEntropy = policy.minEntropy ?? CONTENT_LIMITS.minEntropy;
+    this.maxTextLength = policy.maxTextLength ?? CONTENT_LIMITS.maxTextLength;
+    this.maxTags = policy.maxTags ?? CONTENT_LIMITS.maxTags;
+    this.tagPattern = policy.tagPattern ?? CONTENT_LIMITS.tagPattern;
+  }
+
+  /**
+   * Check an entry about to be published: its text, tags, delete reason and
+   * string field and context values are scanned, and the size and tag limits
+   * enforced. Tags in `published` were already published with the entry
+   * being edited or removed: they are neither scanned nor format-checked,
+   * and the tag count is only enforced when other tags are added.
+   *
+   * @param allowSecrets - The caller's override, honored under the 'confirm' action
+   * @param published - Tags the entry already carries in its stored revision
+   * @returns The entry; under the 'redact' action, a copy with every match replaced
+   * @throws {PolicyViolationError} If a limit is broken, or secrets were found and may not be published
+   */
+  apply(entry: LogEntry, allowSecrets = false, published: string[] = []): LogEntry {
+    const tags = (entry.tags ?? []).filter(tag => !published.includes(tag));
+    this.checkLimits(entry, tags);
+
+    const texts = new Map<string, string>([['text', entry.text]]);
+    if (entry.deleteReason) texts.set('deleteReason', entry.deleteReason);
+    for (const [name, value] of Object.entries(entry.fields ?? {})) {
+      if (typeof value === 'string') texts.set(`fields.${name}`, value);
+    }
+    for (const [name, value] of Object.entries(entry.context ?? {})) {
+      if (typeof value === 'string') texts.set(`context.${name}`, value);
+    }
+
+    const findings: PolicyFinding[] = [];
+    const matches = new Map<string, Match[]>();
+    for (const [field, value] of texts) {
+      const found = this.scan(value);
+      if (found.length > 0) matches.set(field, found);
+    }
+    const tagRules = tags.map(tag => this.scan(tag).map(match => match.rule));
+    const secretTags = tags.filter((_, i) => tagRules[i].length > 0);
+    for (const [field, found] of matches) {
+      for (const rule of new Set(found.map(match => match.rule))) findings.push({ rule, field });
+    }
+    for (const rule of new Set(tagRules.flat())) {
+      findings.push({ rule, field: 'tags' });
+    }
+    if (findings.length === 0) return entry;
+
+    if (this.action === 'redact') {
+      const redacted: LogEntry = { ...entry, text: redact(entry.text, matches.get('text') ?? []) };
+      if (entry.tags) redacted.tags = entry.tags.filter(tag => !secretTags.includes(tag));
+      if (entry.fields) redacted.fields = { ...entry.fields };
+      if (entry.context) redacted.context = { ...entry.context };
+      for (const [field, found] of matches) {
+        if (field === 'text') continue;
+        if (field === 'deleteReason') {
+          redacted.deleteReason = redact(entry.deleteReason!, found);
+          continue;
+        }
+        // 'fields.<name>' or 'context.<name>'; the name may contain dots.
+        const dot = field.indexOf('.');
+        const values = redacted[field.slice(0, dot) as 'fields' | 'context'] as Record<string, string>;
+        const name = field.slice(dot + 1);
+        values[name] = redact(values[name], found);
+      }
+      return redacted;
+    }
+    if (this.action === 'confirm' && allowSecrets) return entry;
+
+    const summary = findings.map(finding => `${finding.rule} in ${finding.field}`).join(', ');
+    const hint = this.action === 'confirm' ? '; pass allowSecrets: true to publish it anyway' : '';
+    throw new PolicyViolationError(`Entry contains possible secrets (${summary})${hint}`, findings);
+  }
+
+  /**
+   * Size and tag limits, which no action or override relaxes. Only `added`
+   * tags are format-checked, and the tag count only when there are any.
+   *
+   * @throws {PolicyViolationError} If any limit is broken
+   */
+  private checkLimits(entry: LogEntry, added: string[]): void {
+    const tags = entry.tags ?? [];
+    if (entry.text.length > this.maxTextLength) {
+      throw new PolicyViolationError(
+        `Entry text is ${entry.text.length} characters; the limit is ${this.maxTextLength}`,
+        [{ rule: 'maxTextLength', field: 'text' }]
+      );
+    }
+    if (added.length > 0 && tags.length > this.maxTags) {
+      throw new PolicyViolationError(
+        `Entry has ${tags.length} tags; the limit is ${this.maxTags}`,
+        [{ rule: 'maxTags', field: 'tags' }]
+      );
+    }
+    const invalid = tags.findIndex(tag => added.includes(tag) && (typeof tag !== 'string' || !this.tagPattern.test(tag)));
+    if (invalid >= 0) {
+      throw new PolicyViolationError(
+        `Tag ${invalid + 1} does not match the tag format ${this.tagPattern}`,
+        [{ rule: 'tagPattern', field: 'tags' }]
+      );
+    }
+  }
+
+  /**
+   * Every detector match in a value, in order, without overlaps.
+   */
+  private scan(value: string): Match[] {
+    const found: Match[] = [];
+    for (const [rule, pattern] of this.detectors) {
+      for (const match of value.matchAll(pattern)) {
+        if (rule === 'wif' && !isWif(match[0])) continue;
+        const [start, end] = match.indices?.[1] ?? match.indices![0];
+        found.push({ rule, start, end });
+      }
+    }
+    if (this.entropy) {
+      // URLs are masked so their paths are not mistaken for tokens.
+      const masked = value.replace(URL_PATTERN, url => ' '.repeat(url.length));
+      for (const match of masked.matchAll(TOKEN)) {
+        if (isSecretLike(match[0], this.minEntropy)) {
+          found.push({ rule: 'highEntropy', start: match.index!, end: match.index! + match[0].length });
+        }
+      }
+    }
+
+    found.sort((a, b) => a.start - b.start || b.end - a.end);
+    const merged: Match[] = [];
+    for (const match of found) {
+      const last = merged[merged.length - 1];
+      if (last && match.start < last.end) {
+        last.end = Math.max(last.end, match.end);
+      } else {
+        merged.push({ ...match });
+      }
+    }
+    return merged;
+  }
+}
+
+/**
+ * Replace each match with a marker naming its rule.
+ */
+function redact(value: string, matches: Match[]): string {
+  let result = value;
+  for (const match of [...matches].reverse()) {
+    result = `${result.slice(0, match.start)}[REDACTED:${match.rule}]${result.slice(match.end)}`;
+  }
+  return result;
+}
+
+function withFlags(flags: string): string {
+  return [...new Set(`${flags}gd`)].join('');
+}
+
+function isWif(candidate: string): boolean {
+  try {
+    PrivateKey.fromWif(candidate);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a token looks random enough to be a credential: high entropy and
+ * frequent changes between lowercase, uppercase, digits and symbols, which
+ * paths, branch names and identifiers lack. Hex strings are exempt: they are
+ * usually txids, hashes, identity keys or UUIDs.
+ */
+function isSecretLike(token: string, minEntropy: number): boolean {
+  const body = token.replace(/=+$/, '');
+  if (/^[0-9a-f-]+$/i.test(body)) return false;
+  return shannonEntropy(body) >= minEntropy && classChanges(body) >= 0.45;
+}
+
+function classChanges(value: string): number {
+  const classOf = (char: string) => /[a-z]/.test(char) ? 0 : /[A-Z]/.test(char) ? 1 : /[0-9]/.test(char) ? 2 : 3;
+  let changes = 0;
+  for (let i = 1; i < value.length; i++) {
+    if (classOf(value[i]) !== classOf(value[i - 1])) changes++;
+  }
+  return changes / (value.length - 1);
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
@@ -0,0 +1,81 @@
+/**
+ * Version written into the `v` field of every new entry value.
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+/**
+ * Upgrades a raw stored entry from one schema version to the next.
+ * Receives a copy it may modify, and returns the entry in the next version's
+ * shape. Throw to reject a value that cannot be upgraded.
+ */
+export type EntryMigration = (raw: Record<string, any>) => Record<string, any>;
+
+/**
+ * SchemaRegistry - Per-version migrations for stored entry values
+ *
+ * A value without `v` is version 0 (written before versioning). Reading
+ * applies the registered migrations in order until the value reaches
+ * CURRENT_SCHEMA_VERSION.
+ *
+ * Version history:
+ * - 0: unversioned single entries; `key` may lack its `{YYYY-MM-DD}/` prefix
+ * - 1: `v` field, full `{YYYY-MM-DD}/...` keys
+ * - 2: `assets` holds descriptor objects instead of URL strings
+ */
+export class SchemaRegistry {
+  private migrations = new Map<number, EntryMigration>();
+
+  constructor() {
+    this.register(0, raw => {
+      // Version 0 keys may be the bare time part; the day comes from `at`.
+      if (typeof raw.key === 'string' && !raw.key.includes('/') && typeof raw.at === 'string') {
+        raw.key = `${raw.at.slice(0, 10)}/${raw.key}`;
+      }
+      return raw;
+    });
+    this.register(1, raw => {
+      if (Array.isArray(raw.assets)) {
+        raw.assets = raw.assets.map((asset: unknown) => typeof asset === 'string' ? { url: asset } : asset);
+      }
+      return raw;
+    });
+  }
+
+  /**
+   * Register (or replace) the migration from `fromVersion` to `fromVersion + 1`.
+   */
+  register(fromVersion: number, migrate: EntryMigration): this {
+    this.migrations.set(fromVersion, migrate);
+    return this;
+  }
+
+  /**
+   * The schema version a raw value declares (0 when absent).
+   */
+  versionOf(raw: Record<string, any>): number {
+    return Number.isInteger(raw.v) && raw.v >= 0 ? raw.v : 0;
+  }
+
+  /**
+   * Upgrade a raw value to the current version. Values from a newer version
+   * are returned unchanged.
+   *
+   * @throws {Error} If a migration is missing or fails
+   */
+  upgrade(raw: Record<string, any>): Record<string, any> {
+    let version = this.versionOf(raw);
+    let current: Record<string, any> = { ...raw };
+
+    while (version < CURRENT_SCHEMA_VERSION) {
+      const migrate = this.migrations.get(version);
+      if (!migrate) {
+        throw new Error(`No migration registered from schema version ${version}`);
+      }
+      current = migrate({ ...current });
+      version++;
+      current.v = version;
+    }
+
+    return current;
+  }
+}
@@ -0,0 +1,166 @@
+import { InvalidEntryError } from './errors.js';
+import { LogEntry } from './types.js';
+
+/**
+ * One clause of a parsed search query.
+ * - 'term': a whole word
+ * - 'prefix': any word starting with the value (`auth*`)
+ * - 'phrase': consecutive words (`"token refresh"`)
+ */
+export interface SearchClause {
+  kind: 'term' | 'prefix' | 'phrase';
+  /** Lowercased words; one for terms and prefixes */
+  words: string[];
+  /** Excluded with a leading `-` */
+  negate: boolean;
+}
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+const WORD = /[\p{L}\p{N}_]+/gu;
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Split text into lowercased words with their offsets.
+ */
+export function tokenize(text: string): Token[] {
+  return [...text.matchAll(WORD)].map(match => ({
+    word: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+}
+
+/**
+ * Parse a query: words, `"phrases"`, `prefix*` terms and `-exclusions`.
+ *
+ * @throws {InvalidEntryError} If the query has no clause that must match
+ */
+export function parseSearchQuery(query: string): SearchClause[] {
+  const clauses: SearchClause[] = [];
+  for (const match of query.matchAll(/(-?)(?:"([^"]*)"?|(\S+))/g)) {
+    const negate = match[1] === '-';
+    if (match[2] !== undefined) {
+      const words = tokenize(match[2]).map(token => token.word);
+      if (words.length > 0) clauses.push({ kind: words.length > 1 ? 'phrase' : 'term', words, negate });
+      continue;
+    }
+    // `auth*` is a prefix; punctuated words like `foo-bar` become several terms.
+    const prefix = match[3].endsWith('*');
+    const tokens = tokenize(match[3]);
+    tokens.forEach((token, i) => {
+      clauses.push({ kind: prefix && i === tokens.length - 1 ? 'prefix' : 'term', words: [token.word], negate });
+    });
+  }
+
+  if (!clauses.some(clause => !clause.negate)) {
+    throw new InvalidEntryError('Search query needs at least one term that must match');
+  }
+  return clauses;
+}
+
+/**
+ * Where and how well an entry matches the query.
+ * Returns undefined unless every required clause matches and no excluded one does.
+ */
+export function matchEntry(
+  entry: LogEntry,
+  clauses: SearchClause[]
+): { relevance: number; highlights: Array<{ start: number; end: number }> } | undefined {
+  const textTokens = tokenize(entry.text);
+  const tagTokens = (entry.tags ?? []).flatMap(tag => tokenize(tag));
+  let relevance = 0;
+  const highlights: Array<{ start: number; end: number }> = [];
+
+  for (const clause of clauses) {
+    const inText = findClause(textTokens, clause);
+    const inTags = findClause(tagTokens, clause).length;
+    const found = inText.length + inTags > 0;
+    if (clause.negate) {
+      if (found) return undefined;
+      continue;
+    }
+    if (!found) return undefined;
+
+    const weight = clause.kind === 'phrase' ? 1.5 * clause.words.length : clause.kind === 'prefix' ? 0.8 : 1;
+    relevance += weight * ((inText.length > 0 ? 1 + Math.log(inText.length) : 0) + (inTags > 0 ? 2 : 0));
+    highlights.push(...inText);
+  }
+
+  highlights.sort((a, b) => a.start - b.start);
+  return { relevance, highlights: mergeRanges(highlights) };
+}
+
+/**
+ * Recency weight in (0, 1]: halves roughly every 3 weeks.
+ */
+export function recencyWeight(at: string, now: Date): number {
+  const ageDays = Math.max(0, (now.getTime() - Date.parse(at)) / (24 * 60 * 60 * 1000));
+  return Number.isFinite(ageDays) ? Math.exp(-ageDays / 30) : 0;
+}
+
+/**
+ * A window of the text around the first highlight, with each highlight
+ * wrapped in the given markers.
+ */
+export function buildSnippet(
+  text: string,
+  highlights: Array<{ start: number; end: number }>,
+  mark: [string, string]
+): string {
+  let start = 0;
+  if (highlights.length > 0 && text.length > SNIPPET_LENGTH) {
+    start = Math.max(0, Math.min(highlights[0].start - 40, text.length - SNIPPET_LENGTH));
+    // Begin at a word boundary.
+    while (start > 0 && /[\p{L}\p{N}_]/u.test(text[start - 1])) start--;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  let snippet = '';
+  let cursor = start;
+  for (const range of highlights) {
+    if (range.end <= start || range.start >= end) continue;
+    const from = Math.max(range.start, start);
+    const to = Math.min(range.end, end);
+    snippet += text.slice(cursor, from) + mark[0] + text.slice(from, to) + mark[1];
+    cursor = to;
+  }
+  snippet += text.slice(cursor, end);
+
+  return (start > 0 ? '…' : '') + snippet.replace(/\s+/g, ' ') + (end < text.length ? '…' : '');
+}
+
+function findClause(tokens: Token[], clause: SearchClause): Array<{ start: number; end: number }> {
+  const found: Array<{ start: number; end: number }> = [];
+  if (clause.kind === 'prefix') {
+    for (const token of tokens) {
+      if (token.word.startsWith(clause.words[0])) found.push({ start: token.start, end: token.end });
+    }
+    return found;
+  }
+
+  const size = clause.words.length;
+  for (let i = 0; i + size <= tokens.length; i++) {
+    if (clause.words.every((word, j) => tokens[i + j].word === word)) {
+      found.push({ start: tokens[i].start, end: tokens[i + size - 1].end });
+    }
+  }
+  return found;
+}
+
+function mergeRanges(ranges: Array<{ start: number; end: number }>): Array<{ start: number; end: number }> {
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,102 @@
+import { ProtoWallet, Utils, WalletInterface, WalletProtocol } from '@bsv/sdk';
+import { LogEntry } from './types.js';
+
+/**
+ * What a reader needs to check an entry's signature.
+ */
+export interface EntryProof {
+  /** Canonical JSON of the stored value without its signature */
+  canonical: string;
+  /** Base64 signature over `canonical` */
+  signature: string;
+  /** Key ID the signature was derived for (the stored entry key) */
+  keyID: string;
+  /** Identity key expected to have signed: the lineage controller */
+  signer?: string;
+}
+
+/**
+ * A parsed entry carrying a signature that has not been checked yet.
+ */
+export interface SignedLogEntry extends LogEntry {
+  proof: EntryProof;
+}
+
+export function isSigned(log: LogEntry): log is SignedLogEntry {
+  return (log as SignedLogEntry).proof != null;
+}
+
+/**
+ * Deterministic JSON: object keys sorted, undefined members dropped.
+ */
+export function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalize(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value != null && typeof value === 'object') {
+    const members = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+    return `{${members.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Sign a stored value with the author's wallet. The signature is made for
+ * counterparty 'anyone' so any reader can verify it from the author's
+ * identity key alone.
+ *
+ * @returns The value with its `signature` member set
+ */
+export async function signStoredValue(
+  wallet: WalletInterface,
+  protocolID: WalletProtocol,
+  stored: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  // Sign exactly what a reader will parse back from the stored JSON.
+  const unsigned = JSON.parse(JSON.stringify({ ...stored, signature: undefined }));
+  const { signature } = await wallet.createSignature({
+    data: Utils.toArray(canonicalize(unsigned), 'utf8'),
+    protocolID,
+    keyID: String(unsigned.key),
+    counterparty: 'anyone'
+  });
+  return { ...unsigned, signature: Utils.toBase64(signature) };
+}
+
+/**
+ * Build the proof for a raw stored value, if it is signed.
+ */
+export function proofFor(raw: any, signer?: string): EntryProof | undefined {
+  if (typeof raw?.signature !== 'string' || typeof raw.key !== 'string') {
+    return undefined;
+  }
+  const { signature, ...unsigned } = raw;
+  return {
+    canonical: canonicalize(unsigned),
+    signature,
+    keyID: raw.key,
+    signer: signer ?? (typeof raw.controller === 'string' ? raw.controller : undefined)
+  };
+}
+
+/**
+ * Check a proof against its expected signer.
+ */
+export async function verifyProof(protocolID: WalletProtocol, proof: EntryProof): Promise<boolean> {
+  if (!proof.signer) return false;
+  try {
+    const { valid } = await new ProtoWallet('anyone').verifySignature({
+      data: Utils.toArray(proof.canonical, 'utf8'),
+      signature: Utils.toArray(proof.signature, 'base64'),
+      protocolID,
+      keyID: proof.keyID,
+      counterparty: proof.signer
+    });
+    return valid === true;
+  } catch {
+    return false;
+  }
+}
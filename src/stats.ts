@@ -0,0 +1,52 @@
+import { ActivityCounts, ActivityStats, LogEntry } from './types.js';
+
+/**
+ * Stats for a range of days with nothing counted yet.
+ */
+export function emptyStats(from: string, to: string, days: string[]): ActivityStats {
+  return {
+    from,
+    to,
+    ...emptyCounts(),
+    byController: {},
+    byTag: {},
+    byDay: Object.fromEntries(days.map(day => [day, 0])),
+    byHour: new Array(24).fill(0)
+  };
+}
+
+/**
+ * Count one entry.
+ *
+ * @param revisions - Number of revisions of the entry, including the current one
+ * @param createdAt - `at` of the entry's first revision
+ * @param hour - Hour of the day the entry was created at, 0-23
+ */
+export function countEntry(stats: ActivityStats, entry: LogEntry, revisions: number, createdAt: string, hour: number): void {
+  const controller = entry.controller ?? 'unknown';
+  const counts = stats.byController[controller] ??= emptyCounts();
+  addTo(stats, entry, revisions, createdAt);
+  addTo(counts, entry, revisions, createdAt);
+
+  for (const tag of new Set(entry.tags ?? [])) {
+    stats.byTag[tag] = (stats.byTag[tag] ?? 0) + 1;
+  }
+  const day = entry.key.slice(0, 10);
+  stats.byDay[day] = (stats.byDay[day] ?? 0) + 1;
+  stats.byHour[hour]++;
+}
+
+function emptyCounts(): ActivityCounts {
+  return { entries: 0, edits: 0, assets: 0, assetBytes: 0 };
+}
+
+function addTo(counts: ActivityCounts, entry: LogEntry, revisions: number, createdAt: string): void {
+  counts.entries++;
+  counts.edits += Math.max(0, revisions - 1);
+  for (const asset of entry.assets ?? []) {
+    counts.assets++;
+    if (typeof asset.size === 'number') counts.assetBytes += asset.size;
+  }
+  if (counts.firstAt === undefined || createdAt < counts.firstAt) counts.firstAt = createdAt;
+  if (counts.lastAt === undefined || entry.at > counts.lastAt) counts.lastAt = entry.at;
+}
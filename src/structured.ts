@@ -0,0 +1,124 @@
+import { CreateLogOptions, FieldValue, LogContext, LogLevel } from './types.js';
+import { InvalidEntryError } from './errors.js';
+
+/**
+ * Levels from least to most severe.
+ */
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Size limits for structured data, checked before anything is written.
+ */
+export const STRUCTURED_LIMITS = {
+  /** Maximum number of entries in `fields` */
+  maxFields: 32,
+  /** Maximum length of a field name */
+  maxFieldNameLength: 64,
+  /** Maximum length of a string field value */
+  maxFieldValueLength: 1024,
+  /** Maximum length of `fields` serialized as JSON */
+  maxFieldsBytes: 8192,
+  /** Maximum length of each `context` value */
+  maxContextValueLength: 256
+} as const;
+
+const CONTEXT_KEYS: ReadonlyArray<keyof LogContext> = ['service', 'repo', 'commit', 'environment'];
+const FIELD_NAME = /^[A-Za-z0-9_.-]+$/;
+
+/**
+ * Rank of a level for minimum-level filtering. Entries without a level
+ * count as 'info'.
+ */
+export function levelRank(level: LogLevel | undefined): number {
+  return LOG_LEVELS.indexOf(level ?? 'info');
+}
+
+/**
+ * Check the structured parts of log options.
+ *
+ * @throws {InvalidEntryError} If a level, field or context value is invalid or too large
+ */
+export function validateStructured(options: Pick<CreateLogOptions, 'level' | 'fields' | 'context'>): void {
+  if (options.level !== undefined && !LOG_LEVELS.includes(options.level)) {
+    throw new InvalidEntryError(`Invalid log level: ${String(options.level)}`);
+  }
+
+  if (options.fields !== undefined) {
+    if (options.fields === null || typeof options.fields !== 'object' || Array.isArray(options.fields)) {
+      throw new InvalidEntryError('fields must be an object of field names to values');
+    }
+    const names = Object.keys(options.fields);
+    if (names.length > STRUCTURED_LIMITS.maxFields) {
+      throw new InvalidEntryError(`fields has ${names.length} entries; the limit is ${STRUCTURED_LIMITS.maxFields}`);
+    }
+    for (const name of names) {
+      if (name.length > STRUCTURED_LIMITS.maxFieldNameLength || !FIELD_NAME.test(name)) {
+        throw new InvalidEntryError(`Invalid field name: ${name}`);
+      }
+      if (!isFieldValue(options.fields[name])) {
+        throw new InvalidEntryError(`Field ${name} must be a string, finite number, boolean or null`);
+      }
+      const value = options.fields[name];
+      if (typeof value === 'string' && value.length > STRUCTURED_LIMITS.maxFieldValueLength) {
+        throw new InvalidEntryError(`Field ${name} exceeds ${STRUCTURED_LIMITS.maxFieldValueLength} characters`);
+      }
+    }
+    if (JSON.stringify(options.fields).length > STRUCTURED_LIMITS.maxFieldsBytes) {
+      throw new InvalidEntryError(`fields exceeds ${STRUCTURED_LIMITS.maxFieldsBytes} bytes when serialized`);
+    }
+  }
+
+  if (options.context !== undefined) {
+    if (options.context === null || typeof options.context !== 'object' || Array.isArray(options.context)) {
+      throw new InvalidEntryError('context must be an object');
+    }
+    for (const [name, value] of Object.entries(options.context)) {
+      if (!CONTEXT_KEYS.includes(name as keyof LogContext)) {
+        throw new InvalidEntryError(`Unknown context key: ${name}`);
+      }
+      if (value === undefined) continue;
+      if (typeof value !== 'string' || value.length > STRUCTURED_LIMITS.maxContextValueLength) {
+        throw new InvalidEntryError(`context.${name} must be a string of at most ${STRUCTURED_LIMITS.maxContextValueLength} characters`);
+      }
+    }
+  }
+}
+
+/**
+ * Read a stored level, ignoring unknown values.
+ */
+export function readLevel(raw: unknown): LogLevel | undefined {
+  return LOG_LEVELS.includes(raw as LogLevel) ? raw as LogLevel : undefined;
+}
+
+/**
+ * Read stored fields, keeping only well-formed entries.
+ */
+export function readFields(raw: unknown): Record<string, FieldValue> | undefined {
+  if (raw == null || typeof raw !== 'object' || Array.isArray(raw)) return undefined;
+  const fields: Record<string, FieldValue> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    if (isFieldValue(value)) fields[name] = value;
+  }
+  return fields;
+}
+
+/**
+ * Read a stored context, keeping only known string members.
+ */
+export function readContext(raw: unknown): LogContext | undefined {
+  if (raw == null || typeof raw !== 'object' || Array.isArray(raw)) return undefined;
+  const context: LogContext = {};
+  for (const name of CONTEXT_KEYS) {
+    const value = (raw as Record<string, unknown>)[name];
+    if (typeof value === 'string') context[name] = value;
+  }
+  return context;
+}
+
+function isFieldValue(value: unknown): value is FieldValue {
+  return value === null ||
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    (typeof value === 'number' && Number.isFinite(value));
+}
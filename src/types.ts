@@ -1,4 +1,6 @@
 import { WalletInterface } from '@bsv/sdk';
+import type { GlossError } from './errors.js';
+import type { SchemaRegistry } from './schema.js';
 
 /**
  * Configuration options for GlossClient
@@ -10,8 +12,564 @@ export interface GlossConfig {
   networkPreset?: 'mainnet' | 'testnet';
   /** Wallet mode (if using WalletClient) */
   walletMode?: 'auto' | 'local';
+  /** Queue log() writes in a durable outbox and replay them with retries */
+  outbox?: OutboxOptions;
+  /** Migrations used to upgrade stored entries (default: the built-in registry) */
+  schema?: SchemaRegistry;
+  /** IANA time zone (e.g., 'America/Los_Angeles') or 'UTC' for day keys and entry IDs (default: the host's) */
+  timeZone?: string;
+  /** Source of the current time (default: system time) */
+  clock?: () => Date;
+  /** Source of random numbers in [0, 1) for entry ID suffixes (default: Math.random) */
+  random?: () => number;
+  /** Storage backend for day lineages (default: GlobalKVStore on the overlay) */
+  store?: GlossStore;
+  /** Cache day lineages locally and only refetch those whose tip changed */
+  cache?: CacheOptions;
+  /** HTTP client for asset downloads (default: global fetch) */
+  fetch?: HttpFetch;
+  /** Finds the HTTP URLs hosting a UHRP URL (default: UHRP lookup on the overlay) */
+  resolveAsset?: (uhrpURL: string) => Promise<string[]>;
+  /** Retry transient store and upload failures (default: no retries) */
+  retry?: RetryOptions;
+  /**
+   * Stable name of this device (e.g., a hostname). When set, entries are
+   * written to a per-device lineage for each day instead of the shared day
+   * lineage, so several devices of one controller never race to spend the
+   * same token. Only a hash of the name is published.
+   */
+  deviceId?: string;
+  /** Hooks run around writes, reads and failures, in order (see GlossClient.use()) */
+  middleware?: GlossMiddleware[];
+  /**
+   * Checks run on every entry before it is published: secret and email
+   * detection plus size and tag limits (default: the default policy;
+   * `false` turns the checks off)
+   */
+  policy?: ContentPolicy | false;
+  /** Where the identity directory and follow lists are kept (default: in memory) */
+  directory?: DirectoryOptions;
+}
+
+/**
+ * What happens to an entry in which a secret (or other detected pattern) is found
+ * - 'confirm': reject it unless the call passes `allowSecrets: true`
+ * - 'reject': always reject it
+ * - 'redact': replace each match with `[REDACTED:<rule>]` and publish the rest
+ */
+export type PolicyAction = 'confirm' | 'reject' | 'redact';
+
+/**
+ * Content checks run before an entry is published
+ */
+export interface ContentPolicy {
+  /** What to do when a detector matches (default 'confirm') */
+  action?: PolicyAction;
+  /** Names of built-in detectors to turn off, e.g. ['email', 'highEntropy'] */
+  disable?: string[];
+  /** Extra detectors: a rule name for each pattern */
+  patterns?: Record<string, RegExp>;
+  /** Entropy in bits per character from which a long token is treated as a secret (default 4) */
+  minEntropy?: number;
+  /** Maximum length of the entry text (default 10000) */
+  maxTextLength?: number;
+  /** Maximum number of tags (default 16) */
+  maxTags?: number;
+  /** Format every tag must match (default: letters, digits, `.`, `_`, `:`, `/` and `-`, up to 64 characters) */
+  tagPattern?: RegExp;
+}
+
+/**
+ * One policy rule an entry broke. Never contains the matched text.
+ */
+export interface PolicyFinding {
+  /** Detector or limit: e.g. 'jwt', 'email', 'highEntropy', 'maxTags', or a custom pattern name */
+  rule: string;
+  /** Where: 'text', 'tags', 'deleteReason', 'fields.<name>' or 'context.<name>' */
+  field: string;
+}
+
+/**
+ * Hooks around GlossClient operations. Every hook is optional and may be async.
+ */
+export interface GlossMiddleware {
+  /**
+   * Called with each entry before it is signed and stored. Return a changed
+   * entry (or change it in place) to store that instead; throw to reject the
+   * write. The key, timestamp and controller cannot be changed.
+   */
+  beforeWrite?: (entry: LogEntry, context: WriteContext) => LogEntry | void | Promise<LogEntry | void>;
+  /**
+   * Called with each entry once it is stored; with an outbox, once it is
+   * delivered. Errors thrown here are passed to onError, not to the caller.
+   */
+  afterWrite?: (entry: LogEntry, context: AfterWriteContext) => void | Promise<void>;
+  /** Called with the entries a read returns; return a replacement list to transform them */
+  afterRead?: (entries: LogEntry[], context: ReadContext) => LogEntry[] | void | Promise<LogEntry[] | void>;
+  /** Called once with each error a public method or outbox delivery fails with */
+  onError?: (error: Error, context: ErrorContext) => void | Promise<void>;
+}
+
+/**
+ * The kind of write an entry belongs to
+ */
+export type WriteOperation = 'log' | 'logMany' | 'update' | 'remove' | 'import';
+
+/**
+ * Passed to beforeWrite hooks
+ */
+export interface WriteContext {
+  operation: WriteOperation;
+  /** Day (YYYY-MM-DD) whose lineage receives the entry */
+  day: string;
+}
+
+/**
+ * Passed to afterWrite hooks
+ */
+export interface AfterWriteContext extends WriteContext {
+  /** Transaction that stored the entry, if the store reports one */
+  txid?: string;
+}
+
+/**
+ * Passed to afterRead hooks
+ */
+export interface ReadContext {
+  /** 'listDay' for listDay(), get() and listToday(); 'iterate' for range reads; 'history' for revisions */
+  operation: 'listDay' | 'iterate' | 'history';
+  /** Day (YYYY-MM-DD) the entries were read from */
+  day: string;
 }
 
+/**
+ * Passed to onError hooks
+ */
+export interface ErrorContext {
+  /** Name of the method that failed, 'deliver' for outbox delivery or 'afterWrite' for a failing hook */
+  operation: string;
+}
+
+/**
+ * Identifies the kind of a GlossError
+ */
+export type GlossErrorCode =
+  | 'NOT_FOUND'
+  | 'NOT_OWNER'
+  | 'WALLET_UNAVAILABLE'
+  | 'OVERLAY_UNAVAILABLE'
+  | 'DOUBLE_SPEND_CONFLICT'
+  | 'INVALID_ENTRY'
+  | 'UPLOAD_FAILED'
+  | 'POLICY_VIOLATION';
+
+/**
+ * How store and upload calls are retried after a retryable failure
+ */
+export interface RetryOptions {
+  /** Attempts per call, including the first (default 1: no retries) */
+  attempts?: number;
+  /** Delay before the first retry in milliseconds, doubled for each further retry (default 500) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay in milliseconds (default 10000) */
+  maxDelayMs?: number;
+  /** Decide whether to retry a failure (default: `error.retryable`) */
+  shouldRetry?: (error: GlossError, attempt: number) => boolean;
+  /** Called before waiting to retry, e.g. for logging */
+  onRetry?: (error: GlossError, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Minimal fetch-compatible HTTP client used for asset downloads
+ */
+export type HttpFetch = (url: string) => Promise<HttpResponse>;
+
+/**
+ * The parts of a fetch Response that Gloss reads
+ */
+export interface HttpResponse {
+  ok: boolean;
+  status: number;
+  headers: { get(name: string): string | null };
+  arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+/**
+ * An attached asset as stored in an entry
+ */
+export interface AssetDescriptor {
+  /** UHRP URL (or plain HTTP URL) of the content */
+  url: string;
+  /** MIME type of the content */
+  mimeType?: string;
+  /** Size in bytes */
+  size?: number;
+  /** Original file name */
+  filename?: string;
+  /** Hex SHA-256 of the content */
+  hash?: string;
+  /** ISO timestamp when the storage host's retention ends */
+  expiresAt?: string;
+}
+
+/**
+ * A controller's day lineage as held in the cache.
+ * Values are kept exactly as stored: signed, and sealed when private.
+ */
+export interface CachedLineage {
+  /** Local day (YYYY-MM-DD) */
+  day: string;
+  /** Identity key of the lineage owner */
+  controller: string;
+  /** Store key of a device lineage; absent for the shared day lineage */
+  key?: string;
+  /** Current (tip) value */
+  value: string;
+  /** Every value, oldest first, including the tip */
+  history: string[];
+  /** Tags of the tip value */
+  tags?: string[];
+  /** Transaction holding the tip, when the store reports it */
+  txid?: string;
+  /** When the tip was last confirmed against the store (ms since epoch) */
+  fetchedAt: number;
+}
+
+/**
+ * Everything a cache storage adapter persists
+ */
+export interface CacheSnapshot {
+  /** When each day's list of lineages was last checked (ms since epoch) */
+  days: Record<string, number>;
+  lineages: CachedLineage[];
+}
+
+/**
+ * Persistence adapter for the lineage cache
+ */
+export interface CacheStorage {
+  /** Load the persisted snapshot, if any */
+  load(): Promise<CacheSnapshot | undefined>;
+  /** Replace the persisted snapshot */
+  save(snapshot: CacheSnapshot): Promise<void>;
+}
+
+/**
+ * Cache configuration
+ */
+export interface CacheOptions {
+  /** Where cached lineages are kept (default: in memory) */
+  storage?: CacheStorage;
+  /** How long today's (and future) days are served without checking tips (default 60s) */
+  ttlMs?: number;
+  /** The same for past days, which rarely change (default: never recheck) */
+  pastDayTtlMs?: number;
+}
+
+/**
+ * Result of a sync() call
+ */
+export interface CacheSyncResult {
+  /** Days checked against the store */
+  days: number;
+  /** Lineages whose history was refetched because their tip changed */
+  fetched: number;
+}
+
+/**
+ * Local name and handle of an identity
+ */
+export interface IdentityInfo {
+  /** Display name */
+  name?: string;
+  /** Unique short name, without the leading `@` (letters, digits, `_`, `.`, `-`) */
+  handle?: string;
+}
+
+/**
+ * An identity key with its local name and handle
+ */
+export interface DirectoryEntry extends IdentityInfo {
+  identityKey: string;
+}
+
+/**
+ * Everything a directory persists
+ */
+export interface DirectorySnapshot {
+  identities: DirectoryEntry[];
+  /** Identity keys on each follow list, by list name */
+  lists: Record<string, string[]>;
+}
+
+/**
+ * Persistence adapter for the identity directory and follow lists
+ */
+export interface DirectoryStorage {
+  /** Load the persisted snapshot, if any */
+  load(): Promise<DirectorySnapshot | undefined>;
+  /** Replace the persisted snapshot */
+  save(snapshot: DirectorySnapshot): Promise<void>;
+}
+
+/**
+ * Directory configuration
+ */
+export interface DirectoryOptions {
+  /** Where names, handles and follow lists are kept (default: in memory) */
+  storage?: DirectoryStorage;
+}
+
+/**
+ * Lookup of day lineages in a GlossStore
+ */
+export interface StoreQuery {
+  /** Day key (e.g., "entry/2025-10-07") or device lineage key ("entry/2025-10-07/{device}") */
+  key?: string;
+  /** Only lineages owned by this identity key */
+  controller?: string;
+  /** Only lineages whose current value carries these tags */
+  tags?: string[];
+  /** Tag matching mode (default 'all') */
+  tagQueryMode?: 'all' | 'any';
+  /** Maximum number of lineages to return */
+  limit?: number;
+  /** Number of lineages to skip */
+  skip?: number;
+}
+
+/**
+ * What a GlossStore lookup returns besides the current values
+ */
+export interface StoreGetOptions {
+  /** Include every value of the lineage, oldest first, including the current one */
+  history?: boolean;
+  /** Include the transaction holding the current value */
+  includeToken?: boolean;
+}
+
+/**
+ * One controller's lineage for a key, as returned by GlossStore.get()
+ */
+export interface StoreRecord {
+  key: string;
+  /** Current (tip) value */
+  value: string;
+  /** Identity key of the lineage owner */
+  controller: string;
+  /** Tags of the current value */
+  tags?: string[];
+  /** Every value, oldest first, ending with the current one (with `history`) */
+  history?: string[];
+  /** Transaction holding the current value (with `includeToken`) */
+  token?: { txid: string; outputIndex: number };
+}
+
+/**
+ * Options for writes to a GlossStore
+ */
+export interface StoreWriteOptions {
+  /** Identity key of the writer; the lineage that is extended or removed */
+  controller: string;
+  /** Tags for the new value */
+  tags?: string[];
+}
+
+/**
+ * Storage backend holding one lineage per controller and key.
+ * Each set() appends the next value to the writer's lineage for that key.
+ */
+export interface GlossStore {
+  /**
+   * Append a value to the writer's lineage for `key`.
+   * @returns Outpoint of the new value ("txid.vout")
+   */
+  set(key: string, value: string, options: StoreWriteOptions): Promise<string>;
+  /** Find lineages matching the query */
+  get(query: StoreQuery, options?: StoreGetOptions): Promise<StoreRecord[]>;
+  /**
+   * End the writer's lineage for `key`.
+   * @returns Transaction ID of the removal
+   * @throws {NotFoundError} If the writer has no lineage for the key; other
+   *   failures may be thrown as-is and are classified by GlossClient
+   */
+  remove(key: string, options: StoreWriteOptions): Promise<string>;
+}
+
+/**
+ * A log() write waiting in the outbox
+ */
+export interface OutboxRecord {
+  /** Logical entry key, generated when log() was called (first key of a batch) */
+  key: string;
+  /** Every entry key carried by a logMany() batch value */
+  keys?: string[];
+  /** Local day the entry belongs to (YYYY-MM-DD); selects the day lineage */
+  day: string;
+  /** Serialized entry (or logMany() envelope) as logged, private entries already encrypted; signed on delivery */
+  value: string;
+  /** Store tags, including the day tag */
+  tags: string[];
+  /** ISO timestamp when the entry was queued */
+  queuedAt: string;
+  /** Number of failed delivery attempts so far */
+  attempts: number;
+  /** Epoch milliseconds before which no automatic retry is made */
+  nextAttemptAt: number;
+  /** Message of the most recent delivery failure */
+  lastError?: string;
+  /** GlossError code of the most recent delivery failure */
+  lastErrorCode?: GlossErrorCode;
+  /** Write the entry was queued by (default 'log', or 'logMany' for batches) */
+  operation?: WriteOperation;
+}
+
+/**
+ * Persistence adapter for outbox records
+ */
+export interface OutboxStorage {
+  /** Load all persisted records, in queue order */
+  load(): Promise<OutboxRecord[]>;
+  /** Replace the persisted records with the given list */
+  save(records: OutboxRecord[]): Promise<void>;
+}
+
+/**
+ * Outbox configuration
+ */
+export interface OutboxOptions {
+  /** Where queued records are persisted (default: in memory) */
+  storage?: OutboxStorage;
+  /** Delay before the first retry in milliseconds (default 1000) */
+  baseDelayMs?: number;
+  /** Upper bound for the retry delay in milliseconds (default 300000) */
+  maxDelayMs?: number;
+}
+
+/**
+ * Result of flushing the outbox
+ */
+export interface OutboxFlushResult {
+  /** Entries delivered by this flush */
+  delivered: number;
+  /** Entries still waiting after this flush */
+  pending: number;
+}
+
+/**
+ * A record from a conventional logger (console, pino, winston, ...)
+ */
+export interface TransportRecord {
+  /** Logger level: a Gloss level, a common name such as 'fatal' or 'verbose', or a pino number */
+  level?: string | number;
+  /** The log message */
+  message: string;
+  /** Everything else the logger attached to the record */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Options for GlossTransport
+ */
+export interface TransportOptions {
+  /** Least severe level that is published (default 'info') */
+  minLevel?: LogLevel;
+  /** Tags added to every entry */
+  tags?: string[];
+  /** Metadata keys whose values become tags, e.g. ['service', 'component'] */
+  tagKeys?: string[];
+  /** Publish only records with at least one of these tags */
+  includeTags?: string[];
+  /** Drop records with any of these tags */
+  excludeTags?: string[];
+  /** Custom filter, run after the level and tag rules */
+  filter?: (record: TransportRecord) => boolean;
+  /** Context recorded on every entry */
+  context?: LogContext;
+  /** Most entries written in one transaction (default 50) */
+  maxBatchSize?: number;
+  /** How often buffered records are written, in milliseconds (default 10000) */
+  flushIntervalMs?: number;
+  /** Most transactions per minute; records wait in the buffer beyond that (default 6) */
+  maxWritesPerMinute?: number;
+  /** Most records kept in the buffer; the oldest are dropped beyond that (default 1000) */
+  maxBuffered?: number;
+  /** Flush when the Node.js process is about to exit (default false) */
+  flushOnExit?: boolean;
+  /** Called when writing a batch fails (default: ignore) */
+  onError?: (error: Error, records: TransportRecord[]) => void;
+  /** Source of the current time in epoch milliseconds, for rate limiting (default Date.now) */
+  clock?: () => number;
+}
+
+/**
+ * The console methods attachConsole() forwards
+ */
+export interface ConsoleLike {
+  debug(...args: unknown[]): void;
+  log(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+/**
+ * Minimal writable stream accepting NDJSON lines (e.g. pino output) or
+ * record objects (e.g. object-mode winston output)
+ */
+export interface TransportStream {
+  write(chunk: string | Uint8Array | Record<string, unknown>): boolean;
+  /** Process any unterminated last line and flush the transport */
+  end(): Promise<void>;
+}
+
+/**
+ * Result of flushing a GlossTransport
+ */
+export interface TransportFlushResult {
+  /** Entries written by this flush */
+  written: number;
+  /** Records still buffered after this flush */
+  pending: number;
+  /** Records dropped so far: over the buffer limit, or rejected by the client */
+  dropped: number;
+}
+
+/**
+ * Severity of a log entry, from least to most severe
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * A structured field value
+ */
+export type FieldValue = string | number | boolean | null;
+
+/**
+ * Where a log entry came from
+ */
+export interface LogContext {
+  service?: string;
+  repo?: string;
+  commit?: string;
+  environment?: string;
+}
+
+/**
+ * Reference to a logical entry in a controller's lineage
+ */
+export interface EntryRef {
+  /** Entry key (e.g., "2025-10-07/143022-456abcd") */
+  key: string;
+  /** Identity key of the entry's controller */
+  controller: string;
+}
+
+/**
+ * Outcome of checking an entry's signature on read
+ */
+export type VerificationStatus = 'valid' | 'invalid' | 'unsigned';
+
 /**
  * A log entry in the global gloss system
  */
@@ -24,8 +582,8 @@ export interface LogEntry {
   text: string;
   /** Optional tags for categorization */
   tags?: string[];
-  /** Optional UHRP URLs for attached assets */
-  assets?: string[];
+  /** Attached assets; entries written before descriptors have only `url` */
+  assets?: AssetDescriptor[];
   /** Identity key of who created this log (for filtering) */
   controller?: string;
   /**
@@ -36,6 +594,40 @@ export interface LogEntry {
    * rather than inheriting the day lineage tip's transaction ID.
    */
   txid?: string;
+  /**
+   * True when this revision is a tombstone marking the logical entry as
+   * deleted. Tombstones are hidden from listDay() unless `includeDeleted` is
+   * requested, but remain visible in getLogHistory().
+   */
+  deleted?: boolean;
+  /** Optional reason recorded with a tombstone revision */
+  deleteReason?: string;
+  /** True for private entries stored encrypted for chosen recipients */
+  encrypted?: boolean;
+  /** Recipients of a private entry (`'self'` or identity keys) */
+  recipients?: string[];
+  /**
+   * True when this is a placeholder for a private entry the caller cannot
+   * decrypt; `text`, `tags` and `assets` are then empty.
+   */
+  redacted?: boolean;
+  /**
+   * Signature check against the controller of the lineage the entry was read
+   * from. Set on entries returned by listDay() and getLogHistory().
+   */
+  verification?: VerificationStatus;
+  /** Severity; entries without one count as 'info' when filtering */
+  level?: LogLevel;
+  /** Structured key/value data */
+  fields?: Record<string, FieldValue>;
+  /** Source of the entry */
+  context?: LogContext;
+  /** The entry this one replies to */
+  parent?: EntryRef;
+  /** Idempotency key the entry was logged with */
+  idempotencyKey?: string;
+  /** Number of direct replies found; set when `replyCountDays` is requested */
+  replyCount?: number;
 }
 
 /**
@@ -54,8 +646,48 @@ export interface DayChain {
 export interface CreateLogOptions {
   /** Optional tags for the log entry */
   tags?: string[];
-  /** Optional asset URLs to attach */
-  assets?: string[];
+  /** Assets to attach: descriptors, or bare URLs */
+  assets?: Array<string | AssetDescriptor>;
+  /**
+   * Make the entry private: `text`, `tags` and `assets` are encrypted so only
+   * these identity keys (and `'self'`, the author) can read them.
+   */
+  recipients?: string[];
+  /** Severity of the entry */
+  level?: LogLevel;
+  /**
+   * Structured key/value data. At most 32 fields; names use letters,
+   * digits, `_`, `.` and `-`; string values up to 1024 characters.
+   */
+  fields?: Record<string, FieldValue>;
+  /** Source of the entry; each value up to 256 characters */
+  context?: LogContext;
+  /** The entry this one replies to (see GlossClient.reply()) */
+  parent?: EntryRef;
+  /** Publish even though the content policy found secrets (policy action 'confirm' only) */
+  allowSecrets?: boolean;
+  /**
+   * Entry key to use instead of a generated one: `{YYYY-MM-DD}/` for the day
+   * being written, then up to 64 letters, digits, `.`, `_`, `:` or `-`.
+   * If the caller already logged an entry with this key that day, it is
+   * returned and nothing is written.
+   */
+  key?: string;
+  /**
+   * Caller-chosen identity of the write (up to 128 characters), stored
+   * publicly with the entry. If the caller already logged an entry with this
+   * idempotency key that day, it is returned and nothing is written, so a
+   * failed call can be retried safely.
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * One entry passed to logMany()
+ */
+export interface LogManyInput extends CreateLogOptions {
+  /** The log message text */
+  text: string;
 }
 
 /**
@@ -63,6 +695,8 @@ export interface CreateLogOptions {
  */
 export interface QueryOptions {
   controller?: string;
+  // Only entries of these controllers (combined with `controller` if both are set).
+  controllers?: string[];
   tags?: string[];
   tagQueryMode?: 'all' | 'any';
   // desired number of results returned to the caller, after filtering
@@ -73,10 +707,282 @@ export interface QueryOptions {
   sortOrder?: 'asc' | 'desc';
   // how many rows to fetch per store scan page
   pageSize?: number;
-  // hard cap on store pages to scan
+  // hard cap on store pages to scan; a page of the shared and of the device
+  // lineage query counts as one
   maxPages?: number;
   // Include exact transaction IDs where the history response exposes them.
   includeTxid?: boolean;
+  // Return tombstoned entries instead of hiding them.
+  includeDeleted?: boolean;
+  // What to do with private entries the caller cannot decrypt (default 'skip').
+  unreadable?: 'skip' | 'redact';
+  // Drop entries whose verification is not 'valid'.
+  requireVerified?: boolean;
+  // Reject malformed stored values instead of substituting missing fields.
+  strict?: boolean;
+  // Only entries at or above this level (entries without a level count as 'info').
+  minLevel?: LogLevel;
+  // Only entries whose fields equal every given value.
+  fields?: Record<string, FieldValue>;
+  // listDay() only: set replyCount on returned entries, counting replies
+  // logged in this many days starting at the listed day (never past today).
+  replyCountDays?: number;
+}
+
+/**
+ * Options for listToday()
+ */
+export interface TodayOptions extends QueryOptions {
+  /** Read "today" in this time zone instead of the configured one */
+  timeZone?: string;
+}
+
+/**
+ * Output formats of exportEntries()
+ * - 'ndjson': one entry per line with every field, including tombstones,
+ *   txids and earlier revisions; readable by importEntries()
+ * - 'markdown': a digest grouped by day, with asset links
+ * - 'atom': an Atom 1.0 feed document
+ * - 'json-feed': a JSON Feed 1.1 document
+ */
+export type ExportFormat = 'ndjson' | 'markdown' | 'atom' | 'json-feed';
+
+/**
+ * Options for exportEntries(): range filters plus document metadata
+ */
+export interface ExportOptions extends RangeOptions {
+  /** Document title (default derived from the range and filters) */
+  title?: string;
+  /** URL the feed is published at (Atom self link, JSON Feed feed_url) */
+  feedUrl?: string;
+  /** Web page the feed belongs to (Atom alternate link, JSON Feed home_page_url) */
+  homePageUrl?: string;
+}
+
+/**
+ * One NDJSON export line: an entry as listed, plus its earlier revisions
+ */
+export interface ExportRecord extends LogEntry {
+  /** Earlier revisions of the entry, newest first */
+  revisions?: LogEntry[];
+}
+
+/**
+ * Options for importEntries()
+ */
+export interface ImportOptions {
+  /** Import revisions even though the content policy found secrets (policy action 'confirm' only) */
+  allowSecrets?: boolean;
+}
+
+/**
+ * Result of importEntries()
+ */
+export interface ImportResult {
+  /** Entries written to the caller's lineages */
+  imported: number;
+  /** Values written, counting every replayed revision */
+  revisions: number;
+  /** Entries or revisions that were not written, and why */
+  skipped: Array<{ key: string; reason: string }>;
+}
+
+/**
+ * Options for search()
+ */
+export interface SearchOptions extends Pick<
+  RangeOptions,
+  'controller' | 'tags' | 'tagQueryMode' | 'unreadable' | 'requireVerified' | 'pageSize' | 'maxPages' | 'concurrency'
+> {
+  /** First day searched (default: 29 days before `to`) */
+  from?: string;
+  /** Last day searched (default: today) */
+  to?: string;
+  /** Maximum number of results (default 20) */
+  limit?: number;
+  /** Markers wrapped around matches in snippets (default ['**', '**']) */
+  mark?: [string, string];
+}
+
+/**
+ * One search() match
+ */
+export interface SearchResult {
+  entry: LogEntry;
+  /** Relevance weighted by recency; higher is better */
+  score: number;
+  /** Part of the text around the first match, with matches marked */
+  snippet: string;
+  /** Offsets of the matches in `entry.text` */
+  highlights: Array<{ start: number; end: number }>;
+}
+
+/**
+ * Options for stats()
+ */
+export interface StatsOptions extends Pick<
+  RangeOptions,
+  'controller' | 'tags' | 'tagQueryMode' | 'minLevel' | 'fields' | 'requireVerified' | 'pageSize' | 'maxPages' | 'concurrency'
+> {
+  /** IANA time zone for the hour-of-day counts (default: the client's) */
+  timeZone?: string;
+}
+
+/**
+ * Activity counts for a set of entries
+ */
+export interface ActivityCounts {
+  /** Current entries */
+  entries: number;
+  /** Edits: revisions of those entries after the first */
+  edits: number;
+  /** Attached assets */
+  assets: number;
+  /** Total size of the attached assets whose size is known, in bytes */
+  assetBytes: number;
+  /** When the earliest entry was created: the `at` of its first revision */
+  firstAt?: string;
+  /** `at` of the latest revision of any entry, edits included */
+  lastAt?: string;
+}
+
+/**
+ * Result of stats(): plain data, ready to serialize or chart
+ */
+export interface ActivityStats extends ActivityCounts {
+  /** First day counted, YYYY-MM-DD */
+  from: string;
+  /** Last day counted, YYYY-MM-DD */
+  to: string;
+  /** Counts per controller identity key */
+  byController: Record<string, ActivityCounts>;
+  /** Entries per tag */
+  byTag: Record<string, number>;
+  /** Entries per day, including days without any */
+  byDay: Record<string, number>;
+  /** Entries per hour of the day (0-23) they were created at, in the chosen time zone */
+  byHour: number[];
+}
+
+/**
+ * Options for feed()
+ */
+export type FeedOptions = Omit<RangeOptions, 'controller' | 'controllers' | 'replyCountDays'>;
+
+/**
+ * A feed entry with its author as named in the directory
+ */
+export interface FeedEntry extends LogEntry {
+  /** The author's name, else `@handle`, else identity key */
+  displayName: string;
+  /** The author's handle, if the directory has one */
+  handle?: string;
+}
+
+/**
+ * Options for getThread()
+ */
+export interface ThreadOptions extends Pick<
+  RangeOptions,
+  'unreadable' | 'requireVerified' | 'pageSize' | 'maxPages' | 'concurrency'
+> {
+  /** Last day searched for replies (default: today) */
+  to?: string;
+  /** Maximum number of days searched, starting at the root's day (default 30) */
+  maxDays?: number;
+}
+
+/**
+ * An entry and its replies in a conversation
+ */
+export interface ThreadNode {
+  entry: LogEntry;
+  /** Direct replies, oldest first */
+  replies: ThreadNode[];
+}
+
+/**
+ * A problem found while decoding a stored value
+ */
+export interface EntryDiagnostic {
+  code:
+    | 'invalid-json'
+    | 'not-an-object'
+    | 'unsupported-version'
+    | 'migration-failed'
+    | 'invalid-key'
+    | 'invalid-timestamp'
+    | 'missing-text'
+    | 'controller-mismatch';
+  /**
+   * How the value was handled: dropped, read with substituted data, or read
+   * as-is despite the problem
+   */
+  action: 'rejected' | 'repaired' | 'accepted';
+  message: string;
+  /** Controller of the lineage the value was read from */
+  controller?: string;
+  /** Entry key, when the value has one */
+  key?: string;
+  /** Schema version the value declared */
+  version?: number;
+}
+
+/**
+ * Entries for a day together with decoding diagnostics
+ */
+export interface DayResult {
+  entries: LogEntry[];
+  diagnostics: EntryDiagnostic[];
+}
+
+/**
+ * Options for querying logs across a range of days
+ */
+export interface RangeOptions extends QueryOptions {
+  /** Maximum number of days fetched at once (default 4) */
+  concurrency?: number;
+}
+
+/**
+ * Serializable position of a watcher in the global log stream
+ */
+export interface WatchCursor {
+  /** Local day currently being watched (YYYY-MM-DD) */
+  day: string;
+  /** Entries already delivered for that day, as `controller\u0000key` */
+  seen: string[];
+}
+
+/**
+ * Options for watching new log entries
+ */
+export interface WatchOptions extends Pick<
+  QueryOptions,
+  'controller' | 'tags' | 'tagQueryMode' | 'includeTxid' | 'pageSize' | 'maxPages'
+> {
+  /** Resume from a cursor saved by a previous watcher */
+  cursor?: WatchCursor;
+  /** Also yield entries that already exist today when starting without a cursor */
+  includeExisting?: boolean;
+  /** Delay between polls in milliseconds (default 10000) */
+  intervalMs?: number;
+  /** Multiplier applied to the delay after each consecutive failed poll (default 2) */
+  backoffFactor?: number;
+  /** Upper bound for the backed-off delay in milliseconds (default 300000) */
+  maxIntervalMs?: number;
+  /** Called with each failed poll's error; polling continues with backoff */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Options for removing a single log entry
+ */
+export interface RemoveEntryOptions {
+  /** Optional reason stored on the tombstone revision */
+  reason?: string;
+  /** Publish the reason even though the content policy found secrets (policy action 'confirm' only) */
+  allowSecrets?: boolean;
 }
 
 /**
@@ -87,6 +993,8 @@ export interface UploadResult {
   uhrpURL: string;
   /** Whether the upload was published successfully */
   published: boolean;
+  /** Descriptor to attach to an entry */
+  asset: AssetDescriptor;
 }
 
 /**
@@ -97,4 +1005,29 @@ export interface UploadOptions {
   storageURL?: string;
   /** Retention period in minutes */
   retentionMinutes?: number;
+  /** File name recorded in the asset descriptor */
+  filename?: string;
+}
+
+/**
+ * Options for downloadAsset()
+ */
+export interface DownloadOptions {
+  /** Check the content against the expected SHA-256 (default true) */
+  verify?: boolean;
+}
+
+/**
+ * A downloaded asset
+ */
+export interface DownloadResult {
+  data: Uint8Array;
+  /** From the response, or else the descriptor */
+  mimeType?: string;
+  /** The HTTP URL the content came from */
+  source: string;
+  /** Hex SHA-256 of `data` */
+  hash: string;
+  /** Whether `hash` was checked against an expected hash */
+  verified: boolean;
 }
@@ -0,0 +1,164 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import test from 'node:test';
+
+import { FileCacheStorage, MemoryGlossStore } from '../dist/index.js';
+import { createClient, recordingStore } from './helpers.mjs';
+
+// Records each read: 'tips' and 'device-tips' for tip checks of the shared
+// and device lineages, 'history' for full reads.
+function countingStore(inner) {
+  return recordingStore(inner, (query, options) =>
+    options.history ? `history:${query.controller ?? '*'}` : query.key ? 'tips' : 'device-tips');
+}
+
+test('cached days are served without store reads until the TTL expires, then only changed tips are refetched', async () => {
+  const memory = new MemoryGlossStore();
+  const state = { now: Date.parse('2026-07-23T12:00:00.000Z') };
+  const alice = createClient(memory, '02alice', state, { cache: { ttlMs: 60_000 } });
+  const bob = createClient(memory, '02bob', state);
+  const store = countingStore(memory);
+  const reader = createClient(store, '02reader', state, { cache: { ttlMs: 60_000 } });
+
+  const note = await alice.log('Alice one');
+  await bob.log('Bob one');
+
+  assert.equal((await reader.listDay('2026-07-23')).length, 2);
+  assert.deepEqual(store.reads.sort(), ['device-tips', 'history:02alice', 'history:02bob', 'tips']);
+
+  store.reads.length = 0;
+  await reader.listDay('2026-07-23', { controller: '02bob' });
+  await reader.getLogHistory(note.key);
+  assert.deepEqual(store.reads, []);
+
+  await bob.log('Bob two');
+  assert.equal((await reader.listDay('2026-07-23')).length, 2);
+  state.now += 60_000;
+  assert.deepEqual((await reader.listDay('2026-07-23')).map(entry => entry.text).sort(), ['Alice one', 'Bob one', 'Bob two']);
+  assert.deepEqual(store.reads, ['tips', 'device-tips', 'history:02bob']);
+
+  await reader.clearCache();
+  store.reads.length = 0;
+  await reader.listDay('2026-07-23');
+  assert.equal(store.reads.filter(read => read.startsWith('history')).length, 2);
+});
+
+test('own writes invalidate the cache, so ownership checks and reads stay current', async () => {
+  const store = countingStore(new MemoryGlossStore());
+  const state = { now: Date.parse('2026-07-23T12:00:00.000Z') };
+  const alice = createClient(store, '02alice', state, { cache: { ttlMs: 60_000 } });
+
+  const entry = await alice.log('Draft');
+  await alice.listDay('2026-07-23');
+  store.reads.length = 0;
+
+  await alice.updateEntryByKey(entry.key, 'Final');
+  assert.deepEqual(store.reads, []);
+  assert.deepEqual((await alice.listDay('2026-07-23')).map(log => log.text), ['Final']);
+  assert.deepEqual(store.reads, ['tips', 'device-tips', 'history:02alice']);
+
+  assert.equal(await alice.removeDay('2026-07-23'), true);
+  assert.deepEqual(await alice.listDay('2026-07-23'), []);
+});
+
+test('past days are not rechecked until sync(), and FileCacheStorage survives restarts', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'gloss-cache-'));
+  const path = join(dir, 'cache.json');
+
+  try {
+    const memory = new MemoryGlossStore();
+    const state = { now: Date.parse('2026-07-22T12:00:00.000Z') };
+    const author = createClient(memory, '02alice', state);
+    await author.log('Yesterday');
+
+    state.now = Date.parse('2026-07-23T12:00:00.000Z');
+    const store = countingStore(memory);
+    const first = createClient(store, '02reader', state, { cache: { storage: new FileCacheStorage(path) } });
+    assert.equal((await first.listDay('2026-07-22')).length, 1);
+
+    state.now = Date.parse('2026-07-22T13:00:00.000Z');
+    await author.log('Late edit to yesterday');
+    state.now = Date.parse('2026-08-23T12:00:00.000Z');
+
+    store.reads.length = 0;
+    const restarted = createClient(store, '02reader', state, { cache: { storage: new FileCacheStorage(path) } });
+    assert.deepEqual((await restarted.listDay('2026-07-22')).map(entry => entry.text), ['Yesterday']);
+    assert.deepEqual(store.reads, []);
+
+    assert.deepEqual(await restarted.sync('2026-07-21', '2026-07-22'), { days: 2, fetched: 1 });
+    assert.equal((await restarted.listDay('2026-07-22')).length, 2);
+    assert.deepEqual(await restarted.sync('2026-07-22'), { days: 1, fetched: 0 });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('FileCacheStorage survives concurrent day reads, and a corrupt file fails reads instead of the process', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'gloss-cache-'));
+  const path = join(dir, 'cache.json');
+
+  try {
+    const memory = new MemoryGlossStore();
+    const state = { now: Date.parse('2026-07-20T12:00:00.000Z') };
+    const author = createClient(memory, '02alice', state);
+    for (let day = 20; day <= 27; day++) {
+      state.now = Date.parse(`2026-07-${day}T12:00:00.000Z`);
+      await author.log(`Day ${day}`);
+    }
+
+    const reader = createClient(memory, '02reader', state, { cache: { storage: new FileCacheStorage(path) } });
+    assert.equal((await reader.listRange('2026-07-20', '2026-07-27')).length, 8);
+    assert.deepEqual(await readdir(dir), ['cache.json']);
+    const restarted = createClient(memory, '02reader', state, { cache: { storage: new FileCacheStorage(path) } });
+    assert.equal((await restarted.listRange('2026-07-20', '2026-07-26')).length, 7);
+
+    await writeFile(path, '{ not json', 'utf8');
+    const broken = createClient(memory, '02reader', state, { cache: { storage: new FileCacheStorage(path) } });
+    await new Promise(resolve => setImmediate(resolve));
+    await assert.rejects(broken.listDay('2026-07-20'), SyntaxError);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('warm reads reuse decoded entries until a lineage tip changes', async () => {
+  const { SchemaRegistry } = await import('../dist/index.js');
+  // Every decoded value passes through upgrade() once.
+  class CountingSchema extends SchemaRegistry {
+    upgrades = 0;
+    upgrade(raw) {
+      this.upgrades++;
+      return super.upgrade(raw);
+    }
+  }
+  const memory = new MemoryGlossStore();
+  const state = { now: Date.parse('2026-07-23T12:00:00.000Z') };
+  const alice = createClient(memory, '02alice', state);
+  const bob = createClient(memory, '02bob', state);
+  const schema = new CountingSchema();
+  const reader = createClient(memory, '02reader', state, { cache: { ttlMs: 60_000 }, schema });
+
+  await alice.log('Alice one');
+  await alice.log('Alice two');
+  await bob.log('Bob one');
+  assert.equal((await reader.listDay('2026-07-23')).length, 3);
+  const cold = schema.upgrades;
+  assert.ok(cold > 0);
+
+  const warm = await reader.listDay('2026-07-23', { tags: [] });
+  assert.equal(schema.upgrades, cold);
+  assert.deepEqual(warm.map(entry => entry.verification), ['invalid', 'invalid', 'invalid']);
+
+  // Only Bob's changed lineage is decoded again once the TTL expires.
+  await bob.log('Bob two');
+  state.now += 61_000;
+  assert.equal((await reader.listDay('2026-07-23')).length, 4);
+  const bobValues = (await memory.get({ key: 'entry/2026-07-23', controller: '02bob' }, { history: true }))[0].history.length;
+  assert.equal(schema.upgrades, cold + bobValues);
+
+  // Diagnostics still decode the stored values.
+  await reader.listDayWithDiagnostics('2026-07-23');
+  assert.ok(schema.upgrades > cold + bobValues);
+});
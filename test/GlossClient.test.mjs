@@ -1,7 +1,8 @@
 import assert from 'node:assert/strict';
 import test from 'node:test';
 
-import { GlossClient } from '../dist/index.js';
+import { GlossClient, MemoryGlossStore, NotFoundError, NotOwnerError, SchemaRegistry } from '../dist/index.js';
+import { stubWallet } from './helpers.mjs';
 
 const controller = '02test-controller';
 const tipTxid = 'a'.repeat(64);
@@ -41,10 +42,7 @@ const current = {
 };
 
 function createClient() {
-  const wallet = {
-    getPublicKey: async () => ({ publicKey: controller })
-  };
-  const client = new GlossClient({ wallet });
+  const client = new GlossClient({ wallet: stubWallet(controller) });
   client.kv = {
     get: async () => [{
       controller,
@@ -94,3 +92,527 @@ test('getLogHistory returns historical revisions without copying the lineage tip
   assert.equal(entries[1].text, first.text);
   assert.equal(entries[1].txid, undefined);
 });
+
+function createTombstoneClient() {
+  const tombstone = {
+    key: second.key,
+    at: '2026-07-23T18:30:00.005Z',
+    text: '',
+    tags: [],
+    assets: [],
+    controller,
+    deleted: true,
+    deleteReason: 'Posted to the wrong day'
+  };
+  const client = createClient();
+  client.kv = {
+    get: async () => [{
+      controller,
+      value: JSON.stringify(tombstone),
+      history: [
+        JSON.stringify(first),
+        JSON.stringify(second),
+        JSON.stringify(current),
+        JSON.stringify(tombstone)
+      ],
+      token: { txid: tipTxid }
+    }]
+  };
+  return client;
+}
+
+test('listDay hides tombstoned entries unless includeDeleted is requested', async () => {
+  const client = createTombstoneClient();
+
+  const visible = await client.listDay(day);
+  assert.deepEqual(visible.map(entry => entry.key), [first.key, current.key]);
+
+  const all = await client.listDay(day, { includeDeleted: true });
+  assert.deepEqual(all.map(entry => entry.key), [first.key, second.key, current.key]);
+  assert.equal(all[1].deleted, true);
+  assert.equal(all[1].deleteReason, 'Posted to the wrong day');
+});
+
+test('getLogHistory returns the tombstone alongside earlier revisions', async () => {
+  const entries = await createTombstoneClient().getLogHistory(second.key);
+
+  assert.equal(entries.length, 2);
+  assert.equal(entries[0].deleted, true);
+  assert.equal(entries[1].text, second.text);
+});
+
+test('removeEntry appends a tombstone only for an entry owned by the caller', async () => {
+  const client = createClient();
+  const writes = [];
+  client.kv.set = async (key, value, options) => {
+    writes.push({ key, value: JSON.parse(value), options });
+    return `${tipTxid}.0`;
+  };
+
+  await assert.rejects(client.removeEntry(`${day}/235959-999zzzz`), NotFoundError);
+  assert.equal(writes.length, 0);
+
+  assert.equal(await client.removeEntry(second.key, { reason: 'duplicate' }), true);
+  assert.equal(writes.length, 1);
+  assert.equal(writes[0].key, `entry/${day}`);
+  assert.equal(writes[0].value.key, second.key);
+  assert.equal(writes[0].value.deleted, true);
+  assert.equal(writes[0].value.deleteReason, 'duplicate');
+  assert.ok(writes[0].options.tags.includes(day));
+
+  const stranger = new GlossClient({ wallet: stubWallet('03someone-else') });
+  stranger.kv = client.kv;
+  await assert.rejects(stranger.removeEntry(second.key), error => error instanceof NotOwnerError && error.code === 'NOT_OWNER');
+  assert.equal(writes.length, 1);
+});
+
+function createRangeClient(rowsByDay) {
+  const client = createClient();
+  const calls = [];
+  client.kv = {
+    get: async (query) => {
+      // Device lineage queries (by tag) find nothing here.
+      if (!query.key) return [];
+      calls.push({ ...query });
+      const rows = rowsByDay[query.key.slice('entry/'.length)] ?? [];
+      if (query.limit === undefined) return rows;
+      return rows.slice(query.skip ?? 0, (query.skip ?? 0) + query.limit);
+    }
+  };
+  return { client, calls };
+}
+
+function entryRow(owner, day, times) {
+  const values = times.map(time => JSON.stringify({
+    key: `${day}/${time}-000aaaa`,
+    at: `${day}T12:00:00.000Z`,
+    text: `${owner} at ${time}`,
+    controller: owner
+  }));
+  return { controller: owner, value: values[values.length - 1], history: values };
+}
+
+test('listRange walks day keys in sortOrder and applies skip and limit across days', async () => {
+  const { client, calls } = createRangeClient({
+    '2026-07-22': [entryRow('02a', '2026-07-22', ['090000', '100000'])],
+    '2026-07-24': [entryRow('02a', '2026-07-24', ['080000'])]
+  });
+
+  const asc = await client.listRange('2026-07-22', '2026-07-24');
+  assert.deepEqual(asc.map(entry => entry.key), [
+    '2026-07-22/090000-000aaaa',
+    '2026-07-22/100000-000aaaa',
+    '2026-07-24/080000-000aaaa'
+  ]);
+  assert.deepEqual(calls.map(call => call.key), ['entry/2026-07-22', 'entry/2026-07-23', 'entry/2026-07-24']);
+
+  const desc = await client.listRange('2026-07-22', '2026-07-24', { sortOrder: 'desc', skip: 1, limit: 1 });
+  assert.deepEqual(desc.map(entry => entry.key), ['2026-07-22/100000-000aaaa']);
+});
+
+test('iterate pages through controller rows with pageSize and stops at maxPages', async () => {
+  const rows = ['02a', '02b', '02c'].map(owner => entryRow(owner, day, ['090000']));
+  const { client, calls } = createRangeClient({ [day]: rows, '2026-07-24': rows });
+
+  const all = await client.listDay(day, { pageSize: 2 });
+  assert.equal(all.length, 3);
+  assert.deepEqual(calls.map(call => call.skip), [0, 2]);
+
+  calls.length = 0;
+  const seen = [];
+  for await (const entry of client.iterate(day, '2026-07-24', { pageSize: 2, maxPages: 1 })) {
+    seen.push(entry.controller);
+  }
+  assert.deepEqual(seen, ['02a', '02b']);
+  assert.equal(calls.length, 1);
+});
+
+test('listRange rejects malformed or inverted dates', async () => {
+  const { client } = createRangeClient({});
+  await assert.rejects(client.listRange('2026-02-30', '2026-03-01'), /Invalid date/);
+  await assert.rejects(client.listRange('2026-07-24', '2026-07-22'), /Invalid date range/);
+});
+
+test('logMany stores one envelope value and listDay expands every entry in it', async () => {
+  const client = createClient();
+  const writes = [];
+  client.kv.set = async (key, value, options) => {
+    writes.push({ key, value, options });
+    return `${tipTxid}.0`;
+  };
+
+  const created = await client.logMany([
+    { text: 'lint passed', tags: ['ci'] },
+    { text: 'tests passed', tags: ['ci', 'tests'] },
+    { text: 'deployed' }
+  ]);
+
+  assert.equal(writes.length, 1);
+  assert.deepEqual(created.map(log => log.text), ['lint passed', 'tests passed', 'deployed']);
+  assert.deepEqual([...created.map(log => log.key)].sort(), created.map(log => log.key));
+  const batchDay = created[0].key.slice(0, 10);
+  assert.deepEqual(writes[0].options.tags, ['ci', 'tests', batchDay]);
+
+  client.kv.get = async () => [{ controller, value: writes[0].value, history: [writes[0].value] }];
+  const listed = await client.listDay(batchDay, { includeTxid: true });
+  assert.deepEqual(listed.map(log => log.text), ['lint passed', 'tests passed', 'deployed']);
+
+  const history = await client.getLogHistory(created[1].key);
+  assert.equal(history.length, 1);
+  assert.equal(history[0].text, 'tests passed');
+});
+
+test('listDay expands every log of a legacy day-chain value', async () => {
+  const client = createClient();
+  const legacy = JSON.stringify({ key: day, logs: [first, second] });
+  client.kv.get = async () => [{ controller, value: legacy, history: [legacy] }];
+
+  const entries = await client.listDay(day);
+  assert.deepEqual(entries.map(entry => entry.key), [first.key, second.key]);
+});
+
+test('private entries are readable only by their recipients and publish only the day tag', async () => {
+  const { PrivateKey, ProtoWallet } = await import('@bsv/sdk');
+  const wallets = {
+    alice: new ProtoWallet(PrivateKey.fromRandom()),
+    bob: new ProtoWallet(PrivateKey.fromRandom()),
+    carol: new ProtoWallet(PrivateKey.fromRandom())
+  };
+  const bobKey = (await wallets.bob.getPublicKey({ identityKey: true })).publicKey;
+
+  const lineage = [];
+  const kv = {
+    set: async (key, value, options) => {
+      lineage.push({ value, tags: options.tags });
+      return `${tipTxid}.0`;
+    },
+    get: async () => [{
+      controller: JSON.parse(lineage[0].value).controller,
+      value: lineage[lineage.length - 1].value,
+      history: lineage.map(step => step.value)
+    }]
+  };
+  const clients = Object.fromEntries(Object.entries(wallets).map(([name, wallet]) => {
+    const client = new GlossClient({ wallet });
+    client.kv = kv;
+    return [name, client];
+  }));
+
+  const created = await clients.alice.log('Unreleased launch plan', {
+    tags: ['launch'],
+    recipients: ['self', bobKey]
+  });
+  await clients.alice.log('Public note');
+  const createdDay = created.key.slice(0, 10);
+
+  assert.deepEqual(lineage[0].tags, [createdDay]);
+  assert.ok(!lineage[0].value.includes('Unreleased launch plan'));
+  assert.ok(!lineage[0].value.includes('launch"'));
+
+  for (const reader of ['alice', 'bob']) {
+    const entries = await clients[reader].listDay(createdDay, { tags: ['launch'] });
+    assert.equal(entries.length, 1, reader);
+    assert.equal(entries[0].text, 'Unreleased launch plan');
+    assert.equal(entries[0].encrypted, true);
+  }
+
+  const skipped = await clients.carol.listDay(createdDay);
+  assert.deepEqual(skipped.map(entry => entry.text), ['Public note']);
+
+  const redacted = await clients.carol.listDay(createdDay, { unreadable: 'redact' });
+  assert.equal(redacted.length, 2);
+  const placeholder = redacted.find(entry => entry.key === created.key);
+  assert.equal(placeholder.redacted, true);
+  assert.equal(placeholder.text, '');
+
+  const history = await clients.bob.getLogHistory(created.key);
+  assert.equal(history[0].text, 'Unreleased launch plan');
+});
+
+test('entries are signed on write and verified against the lineage controller on read', async () => {
+  const { PrivateKey, ProtoWallet } = await import('@bsv/sdk');
+  const authorWallet = new ProtoWallet(PrivateKey.fromRandom());
+  const author = (await authorWallet.getPublicKey({ identityKey: true })).publicKey;
+  const impostorWallet = new ProtoWallet(PrivateKey.fromRandom());
+  const impostor = (await impostorWallet.getPublicKey({ identityKey: true })).publicKey;
+
+  const lineages = { [author]: [], [impostor]: [] };
+  const writer = (wallet, identity) => {
+    const client = new GlossClient({ wallet });
+    client.kv = {
+      set: async (key, value) => {
+        lineages[identity].push(value);
+        return `${tipTxid}.0`;
+      },
+      get: async () => Object.entries(lineages)
+        .filter(([, values]) => values.length > 0)
+        .map(([owner, values]) => ({ controller: owner, value: values[values.length - 1], history: values }))
+    };
+    return client;
+  };
+  const client = writer(authorWallet, author);
+  const impostorClient = writer(impostorWallet, impostor);
+
+  const genuine = await client.log('Signed by the author');
+  const entryDay = genuine.key.slice(0, 10);
+  const updated = await client.updateEntryByKey(genuine.key, 'Edited by the author');
+  assert.equal(updated.text, 'Edited by the author');
+
+  // Tampered copy of a genuine value, and a body claiming the author inside another lineage.
+  const tampered = JSON.parse(lineages[author][0]);
+  tampered.key = `${entryDay}/000000-000tamp`;
+  lineages[author].push(JSON.stringify({ ...tampered, text: 'Altered text' }));
+  await impostorClient.log('Forged attribution');
+  const forged = JSON.parse(lineages[impostor][0]);
+  lineages[impostor][0] = JSON.stringify({ ...forged, controller: author });
+  lineages[author].push(JSON.stringify({ key: `${entryDay}/000001-000uns1`, at: genuine.at, text: 'Legacy', controller: author }));
+
+  const { entries, diagnostics } = await client.listDayWithDiagnostics(entryDay);
+  const byText = Object.fromEntries(entries.map(entry => [entry.text, entry.verification]));
+  assert.deepEqual(byText, {
+    'Edited by the author': 'valid',
+    'Altered text': 'invalid',
+    Legacy: 'unsigned'
+  });
+  assert.deepEqual(diagnostics.map(d => [d.code, d.action, d.controller]), [['controller-mismatch', 'rejected', impostor]]);
+
+  const verified = await client.listDay(entryDay, { requireVerified: true });
+  assert.deepEqual(verified.map(entry => entry.text), ['Edited by the author']);
+
+  const history = await client.getLogHistory(genuine.key);
+  assert.deepEqual(history.map(entry => entry.verification), ['valid', 'valid']);
+});
+
+test('written values carry the schema version and legacy values are migrated on read', async () => {
+  const client = createClient();
+  const writes = [];
+  client.kv.set = async (key, value) => {
+    writes.push(JSON.parse(value));
+    return `${tipTxid}.0`;
+  };
+  await client.log('Versioned');
+  assert.equal(writes[0].v, 2);
+
+  const legacy = JSON.stringify({ key: '090000-001aaaa', at: first.at, text: 'Unversioned bare key', controller });
+  client.kv.get = async () => [{ controller, value: legacy, history: [legacy] }];
+  const { entries, diagnostics } = await client.listDayWithDiagnostics(day, { strict: true });
+  assert.deepEqual(entries.map(entry => entry.key), [`${day}/090000-001aaaa`]);
+  assert.deepEqual(diagnostics, []);
+});
+
+test('strict mode reports malformed values instead of fabricating keys and timestamps', async () => {
+  const client = createClient();
+  const values = [
+    'not json',
+    JSON.stringify({ v: 1, at: first.at, text: 'No key', controller }),
+    JSON.stringify({ v: 1, key: `${day}/120000-000nots`, text: 'No timestamp', controller }),
+    JSON.stringify({ v: 7, key: `${day}/130000-000futr`, at: first.at, text: 'From the future', controller }),
+    JSON.stringify(first)
+  ];
+  client.kv.get = async () => [{ controller, value: values[values.length - 1], history: values }];
+
+  const strict = await client.listDayWithDiagnostics(day, { strict: true });
+  assert.deepEqual(strict.entries.map(entry => entry.text), [first.text]);
+  assert.deepEqual(
+    strict.diagnostics.map(diagnostic => [diagnostic.code, diagnostic.action]).sort(),
+    [
+      ['invalid-json', 'rejected'],
+      ['invalid-key', 'rejected'],
+      ['invalid-timestamp', 'rejected'],
+      ['unsupported-version', 'rejected']
+    ]
+  );
+  assert.ok(strict.diagnostics.every(diagnostic => diagnostic.controller === controller));
+
+  const lenient = await client.listDayWithDiagnostics(day);
+  assert.equal(lenient.entries.length, 4);
+  assert.deepEqual(
+    lenient.diagnostics.map(diagnostic => [diagnostic.code, diagnostic.action]).sort(),
+    [
+      ['invalid-json', 'rejected'],
+      ['invalid-key', 'repaired'],
+      ['invalid-timestamp', 'repaired'],
+      ['unsupported-version', 'accepted']
+    ]
+  );
+});
+
+test('a custom schema registry can replace the migration for a version', async () => {
+  const schema = new SchemaRegistry().register(0, raw => ({ ...raw, text: raw.message, key: `${day}/${raw.id}` }));
+  const client = new GlossClient({ wallet: stubWallet(controller), schema });
+  const legacy = JSON.stringify({ id: '080000-000olds', at: first.at, message: 'Renamed field' });
+  client.kv = { get: async () => [{ controller, value: legacy, history: [legacy] }] };
+
+  const entries = await client.listDay(day, { strict: true });
+  assert.equal(entries[0].key, `${day}/080000-000olds`);
+  assert.equal(entries[0].text, 'Renamed field');
+});
+
+test('structured level, fields and context are stored and filterable in listDay', async () => {
+  const client = createClient();
+  const lineage = [];
+  client.kv.set = async (key, value) => {
+    lineage.push(value);
+    return `${tipTxid}.0`;
+  };
+  client.kv.get = async () => [{ controller, value: lineage[lineage.length - 1], history: lineage }];
+
+  const context = { service: 'api', repo: 'p2ppsr/gloss-client', commit: 'abc123', environment: 'prod' };
+  const created = await client.log('Request failed', { level: 'error', fields: { status: 502, route: '/pay', retried: false }, context });
+  await client.log('Cache warmed', { level: 'debug', fields: { route: '/pay' } });
+  await client.log('Plain text entry');
+  const entryDay = created.key.slice(0, 10);
+
+  const stored = JSON.parse(lineage[0]);
+  assert.equal(stored.level, 'error');
+  assert.deepEqual(stored.fields, { status: 502, route: '/pay', retried: false });
+  assert.deepEqual(stored.context, context);
+
+  const warnings = await client.listDay(entryDay, { minLevel: 'warn' });
+  assert.deepEqual(warnings.map(entry => entry.text), ['Request failed']);
+  assert.deepEqual(warnings[0].context, context);
+
+  const infoAndUp = await client.listDay(entryDay, { minLevel: 'info' });
+  assert.deepEqual(infoAndUp.map(entry => entry.text).sort(), ['Plain text entry', 'Request failed']);
+
+  const payRoute = await client.listDay(entryDay, { fields: { route: '/pay' } });
+  assert.equal(payRoute.length, 2);
+  const failures = await client.listDay(entryDay, { fields: { route: '/pay', status: 502 } });
+  assert.deepEqual(failures.map(entry => entry.text), ['Request failed']);
+});
+
+test('structured values are validated before anything is written', async () => {
+  const client = createClient();
+  let writes = 0;
+  client.kv.set = async () => {
+    writes++;
+    return `${tipTxid}.0`;
+  };
+
+  await assert.rejects(client.log('x', { level: 'fatal' }), /Invalid log level/);
+  await assert.rejects(client.log('x', { fields: { nested: { a: 1 } } }), /must be a string/);
+  await assert.rejects(client.log('x', { fields: { 'bad name': 1 } }), /Invalid field name/);
+  await assert.rejects(client.log('x', { fields: { big: 'y'.repeat(1025) } }), /exceeds 1024/);
+  await assert.rejects(client.log('x', { fields: Object.fromEntries(Array.from({ length: 33 }, (_, i) => [`f${i}`, i])) }), /limit is 32/);
+  await assert.rejects(client.log('x', { context: { branch: 'main' } }), /Unknown context key/);
+  await assert.rejects(client.logMany([{ text: 'ok' }, { text: 'x', fields: { n: NaN } }]), /finite number/);
+  assert.equal(writes, 0);
+});
+
+test('replies link to their parent across controllers and getThread assembles the conversation', async () => {
+  // One shared store holding a lineage per controller and day.
+  const lineages = new Map();
+  const clientFor = identity => {
+    const client = new GlossClient({ wallet: stubWallet(identity) });
+    client.kv = {
+      set: async (key, value) => {
+        const id = `${identity}|${key}`;
+        lineages.set(id, [...(lineages.get(id) ?? []), value]);
+        return `${tipTxid}.0`;
+      },
+      get: async query => [...lineages.entries()]
+        .filter(([id]) => id.endsWith(`|${query.key}`) && (!query.controller || id.startsWith(`${query.controller}|`)))
+        .map(([id, history]) => ({ controller: id.split('|')[0], value: history[history.length - 1], history }))
+    };
+    return client;
+  };
+  const alice = clientFor('02alice');
+  const bob = clientFor('02bob');
+
+  const root = await alice.log('Deploy is slow today');
+  const answer = await bob.reply(root.key, '02alice', 'Looking into it');
+  const followUp = await alice.reply(answer.key, '02bob', 'Thanks');
+  // Replies are ordered by `at`; keep the two siblings in different milliseconds.
+  await new Promise(resolve => setTimeout(resolve, 5));
+  const second = await alice.reply(root.key, '02alice', 'Back to normal now');
+  await alice.log('Unrelated');
+
+  assert.deepEqual(answer.parent, { key: root.key, controller: '02alice' });
+  await assert.rejects(bob.reply(`${day}/000000-000zzzz`, '02alice', 'Nobody home'), NotFoundError);
+  await assert.rejects(bob.log('x', { parent: { key: 'not-a-key', controller: '02alice' } }), /Invalid parent key/);
+
+  const thread = await bob.getThread(root.key, '02alice');
+  assert.equal(thread.entry.text, 'Deploy is slow today');
+  assert.deepEqual(thread.replies.map(node => node.entry.text), ['Looking into it', 'Back to normal now']);
+  assert.deepEqual(thread.replies[0].replies.map(node => node.entry.key), [followUp.key]);
+  assert.deepEqual(thread.replies[1].replies, []);
+  assert.equal(second.parent.controller, '02alice');
+
+  const listed = await alice.listDay(root.key.slice(0, 10), { controller: '02alice', replyCountDays: 1 });
+  const counts = Object.fromEntries(listed.map(entry => [entry.text, entry.replyCount]));
+  assert.deepEqual(counts, { 'Deploy is slow today': 2, 'Thanks': 0, 'Back to normal now': 0, 'Unrelated': 0 });
+
+  assert.equal(await alice.getThread(`${day}/000000-000zzzz`, '02alice'), undefined);
+});
+
+test('timeZone, clock and random control day keys, entry IDs and listToday', async () => {
+  const wallet = stubWallet(controller);
+  const clock = () => new Date('2026-07-24T03:30:00.250Z');
+  const client = new GlossClient({ wallet, timeZone: 'America/Los_Angeles', clock, random: () => 0.5 });
+  const writes = [];
+  const queried = [];
+  client.kv = {
+    set: async (key, value) => {
+      writes.push({ key, value: JSON.parse(value) });
+      return `${tipTxid}.0`;
+    },
+    get: async query => {
+      queried.push(query.key ?? query.tags[0]);
+      return [];
+    }
+  };
+
+  const entry = await client.log('Evening deploy');
+  assert.equal(entry.key, '2026-07-23/203000-250i000');
+  assert.equal(entry.at, '2026-07-24T03:30:00.250Z');
+  assert.equal(writes[0].key, 'entry/2026-07-23');
+
+  await client.listToday();
+  await client.listToday({ timeZone: 'UTC' });
+  await client.listToday({ timeZone: 'Asia/Tokyo' });
+  assert.deepEqual(queried, [
+    'entry/2026-07-23', 'devices/2026-07-23',
+    'entry/2026-07-24', 'devices/2026-07-24',
+    'entry/2026-07-24', 'devices/2026-07-24'
+  ]);
+
+  const utc = new GlossClient({ wallet, timeZone: 'UTC', clock, random: () => 0.5 });
+  utc.kv = client.kv;
+  assert.equal((await utc.log('Build finished')).key, '2026-07-24/033000-250i000');
+
+  // A fixed random source still gives every entry of a batch its own key.
+  const batch = await utc.logMany([{ text: 'One' }, { text: 'Two' }, { text: 'Three' }]);
+  assert.deepEqual(batch.map(entry => entry.key), [
+    '2026-07-24/033000-250i0000',
+    '2026-07-24/033000-250i0001',
+    '2026-07-24/033000-250i0002'
+  ]);
+  assert.equal((await utc.logMany([{ text: 'Alone' }]))[0].key, '2026-07-24/033000-250i000');
+
+  assert.throws(() => new GlossClient({ wallet, timeZone: 'Mars/Olympus_Mons' }), /Invalid time zone/);
+  await assert.rejects(client.listToday({ timeZone: 'Nowhere' }), /Invalid time zone/);
+});
+
+test('a value in another lineage cannot hide or replace an entry by claiming its controller', async () => {
+  const { PrivateKey, ProtoWallet } = await import('@bsv/sdk');
+  const victimWallet = new ProtoWallet(PrivateKey.fromRandom());
+  const victim = (await victimWallet.getPublicKey({ identityKey: true })).publicKey;
+  const attacker = '02attacker';
+
+  const client = new GlossClient({ wallet: victimWallet, store: new MemoryGlossStore() });
+  const entry = await client.log('Signed by the victim');
+  const entryDay = entry.key.slice(0, 10);
+  const later = new Date(Date.parse(entry.at) + 60_000).toISOString();
+
+  for (const forged of [
+    { key: entry.key, at: later, text: '', controller: victim, deleted: true },
+    { key: entry.key, at: later, text: 'Forged text', controller: victim }
+  ]) {
+    await client.kv.set(`entry/${entryDay}`, JSON.stringify(forged), { controller: attacker });
+    for (const options of [{}, { requireVerified: true }]) {
+      const entries = await client.listDay(entryDay, options);
+      assert.deepEqual(entries.map(log => [log.controller, log.text, log.verification]), [[victim, 'Signed by the victim', 'valid']]);
+    }
+  }
+  assert.deepEqual((await client.getLogHistory(entry.key)).map(log => log.text), ['Signed by the victim']);
+});
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import test from 'node:test';
+
+import { FileDirectoryStorage, InvalidEntryError, MemoryGlossStore, NotFoundError } from '../dist/index.js';
+import { createClient, createWorld, recordingStore } from './helpers.mjs';
+
+async function seed(options) {
+  // Records which controllers each read asked the store for.
+  const store = recordingStore(new MemoryGlossStore(), query => query.controller ?? '*');
+  const { state, client } = createWorld('2026-07-20T09:00:00.000Z', store);
+  const alice = client('02alice');
+  const bob = client('02bob');
+  const carol = client('02carol');
+
+  await alice.log('Alice starts');
+  state.now += 60_000;
+  await carol.log('Carol is not followed');
+  state.now += 60_000;
+  await bob.log('Bob replies');
+  state.now = Date.parse('2026-07-21T08:00:00.000Z');
+  await bob.log('Bob next day', { tags: ['release'] });
+  state.now += 60_000;
+  await alice.log('Alice next day');
+  const reader = client('02reader', options);
+  store.reads.length = 0;
+  reader.store = store;
+  return reader;
+}
+
+test('controllers filters reads to several identities at once', async () => {
+  const reader = await seed({ cache: {} });
+
+  const texts = entries => entries.map(entry => entry.text);
+  assert.deepEqual(texts(await reader.listDay('2026-07-20', { controllers: ['02alice', '02bob'] })), ['Alice starts', 'Bob replies']);
+  // Only the followed controllers' lineages are read.
+  assert.deepEqual([...new Set(reader.store.reads)].sort(), ['02alice', '02bob']);
+  assert.deepEqual(texts(await reader.listDay('2026-07-20', { controllers: ['02carol'] })), ['Carol is not followed']);
+  assert.deepEqual(await reader.listDay('2026-07-20', { controllers: [] }), []);
+  assert.deepEqual(texts(await reader.listDay('2026-07-20', { controllers: ['02alice', '02bob'], controller: '02bob' })), ['Bob replies']);
+  // Filtered reads must not stand in for the whole day in the cache.
+  assert.equal((await reader.listDay('2026-07-20')).length, 3);
+});
+
+test('feed merges the followed identities with their directory names', async () => {
+  const reader = await seed();
+
+  await reader.setIdentity('02alice', { name: 'Alice Liddell', handle: '@alice' });
+  await reader.setIdentity('02bob', { handle: 'bob' });
+  await assert.rejects(reader.setIdentity('02carol', { handle: 'Alice' }), error =>
+    error instanceof InvalidEntryError && /already belongs to 02alice/.test(error.message));
+  await assert.rejects(reader.setIdentity('02carol', { handle: 'has space' }), /Invalid handle/);
+
+  assert.equal(await reader.follow('@alice', 'team'), true);
+  assert.equal(await reader.follow('02bob', 'team'), true);
+  assert.equal(await reader.follow('@bob', 'team'), false);
+  assert.equal(await reader.follow('02carol'), true);
+  // An unknown handle is not taken for an identity key.
+  await assert.rejects(reader.follow('@nobody', 'team'), NotFoundError);
+  await assert.rejects(reader.unfollow('@nobody', 'team'), NotFoundError);
+  assert.deepEqual(await reader.listFollowing('team'), [
+    { identityKey: '02alice', name: 'Alice Liddell', handle: 'alice' },
+    { identityKey: '02bob', handle: 'bob' }
+  ]);
+
+  const feed = await reader.feed({ from: '2026-07-20', to: '2026-07-21' }, 'team');
+  assert.deepEqual(feed.map(entry => [entry.displayName, entry.text]), [
+    ['Alice Liddell', 'Alice starts'],
+    ['@bob', 'Bob replies'],
+    ['@bob', 'Bob next day'],
+    ['Alice Liddell', 'Alice next day']
+  ]);
+  assert.equal(feed[1].handle, 'bob');
+  assert.deepEqual((await reader.feed('2026-07-21', 'team', { tags: ['release'] })).map(entry => entry.text), ['Bob next day']);
+  assert.deepEqual((await reader.feed('2026-07-20')).map(entry => [entry.displayName, entry.text]), [['02carol', 'Carol is not followed']]);
+
+  assert.equal(await reader.unfollow('@alice', 'team'), true);
+  assert.equal(await reader.unfollow('@alice', 'team'), false);
+  assert.deepEqual((await reader.feed('2026-07-20', 'team')).map(entry => entry.text), ['Bob replies']);
+  assert.deepEqual(await reader.feed('2026-07-20', 'nobody'), []);
+});
+
+test('FileDirectoryStorage keeps names and follow lists between runs', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'gloss-directory-'));
+  const path = join(dir, 'directory.json');
+
+  try {
+    const state = { now: Date.parse('2026-07-20T09:00:00.000Z') };
+    const first = createClient(new MemoryGlossStore(), '02reader', state, { directory: { storage: new FileDirectoryStorage(path) } });
+    await first.setIdentity('02bob', { name: 'Bob', handle: 'bob' });
+    await first.setIdentity('02alice', { name: 'Alice' });
+    await Promise.all([first.follow('@bob', 'team'), first.follow('02alice', 'team'), first.follow('02carol', 'ops')]);
+    assert.deepEqual(await readdir(dir), ['directory.json']);
+
+    const restarted = createClient(new MemoryGlossStore(), '02reader', state, { directory: { storage: new FileDirectoryStorage(path) } });
+    assert.deepEqual(await restarted.listIdentities(), [
+      { identityKey: '02alice', name: 'Alice' },
+      { identityKey: '02bob', name: 'Bob', handle: 'bob' }
+    ]);
+    assert.deepEqual((await restarted.listFollowing('team')).map(entry => entry.identityKey), ['02bob', '02alice']);
+
+    assert.equal(await restarted.removeIdentity('02bob'), true);
+    assert.deepEqual(await restarted.listFollowing('team'), [{ identityKey: '02bob' }, { identityKey: '02alice', name: 'Alice' }]);
+
+    await writeFile(path, '{ not json', 'utf8');
+    const broken = createClient(new MemoryGlossStore(), '02reader', state, { directory: { storage: new FileDirectoryStorage(path) } });
+    await new Promise(resolve => setImmediate(resolve));
+    await assert.rejects(broken.listFollowing('team'), SyntaxError);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,186 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import test from 'node:test';
+
+import { GlossClient, FileOutboxStorage, MemoryOutboxStorage } from '../dist/index.js';
+import { stubWallet } from './helpers.mjs';
+
+const controller = '02test-controller';
+
+// A store whose set() fails while `online` is false.
+function createStore() {
+  const store = { online: false, writes: [] };
+  store.kv = {
+    set: async (key, value, options) => {
+      if (!store.online) throw new Error('wallet unreachable');
+      store.writes.push({ key, value: JSON.parse(value), tags: options.tags });
+      return 'b'.repeat(64) + '.0';
+    }
+  };
+  return store;
+}
+
+function createClient(store, outbox) {
+  const client = new GlossClient({ wallet: stubWallet(controller), outbox: { baseDelayMs: 60_000, ...outbox } });
+  client.kv = store.kv;
+  return client;
+}
+
+test('log() queues entries while the store is unreachable and flush() replays them in order', async () => {
+  const store = createStore();
+  const client = createClient(store, { storage: new MemoryOutboxStorage() });
+
+  const first = await client.log('first', { tags: ['ci'] });
+  const second = await client.log('second');
+  await client.flush();
+
+  const pending = await client.pending();
+  assert.deepEqual(pending.map(record => record.key), [first.key, second.key]);
+  assert.ok(pending[0].attempts >= 1);
+  assert.equal(pending[0].lastError, 'wallet unreachable');
+  // The second record waits behind the failing head of the same lineage.
+  assert.equal(pending[1].attempts, 0);
+
+  store.online = true;
+  const result = await client.flush();
+  assert.deepEqual(result, { delivered: 2, pending: 0 });
+  assert.deepEqual(store.writes.map(write => write.value.text), ['first', 'second']);
+  assert.equal(store.writes[0].key, `entry/${first.key.slice(0, 10)}`);
+  assert.deepEqual(store.writes[0].tags, ['ci', first.key.slice(0, 10)]);
+
+  await client.delivered(first.key);
+  await client.delivered(second.key);
+});
+
+test('queued entries keep their original day key when delivered later', async () => {
+  const store = createStore();
+  const storage = new MemoryOutboxStorage();
+  await storage.save([{
+    key: '2026-07-23/235959-999aaaa',
+    day: '2026-07-23',
+    value: JSON.stringify({ key: '2026-07-23/235959-999aaaa', at: '2026-07-24T06:59:59.999Z', text: 'late', controller }),
+    tags: ['2026-07-23'],
+    queuedAt: '2026-07-24T06:59:59.999Z',
+    attempts: 3,
+    nextAttemptAt: 0
+  }]);
+  store.online = true;
+
+  const client = createClient(store, { storage });
+  await client.delivered('2026-07-23/235959-999aaaa');
+
+  assert.equal(store.writes.length, 1);
+  assert.equal(store.writes[0].key, 'entry/2026-07-23');
+  assert.deepEqual(await client.pending(), []);
+});
+
+test('FileOutboxStorage persists queued entries across client instances', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'gloss-outbox-'));
+  const path = join(dir, 'outbox.json');
+
+  try {
+    const store = createStore();
+    const client = createClient(store, { storage: new FileOutboxStorage(path) });
+    const entry = await client.log('survives restart');
+    await client.flush();
+
+    const persisted = JSON.parse(await readFile(path, 'utf8'));
+    assert.equal(persisted.length, 1);
+    assert.equal(persisted[0].key, entry.key);
+
+    store.online = true;
+    const restarted = createClient(store, { storage: new FileOutboxStorage(path) });
+    await restarted.delivered(entry.key);
+
+    assert.equal(store.writes.length, 1);
+    assert.equal(store.writes[0].value.key, entry.key);
+    assert.deepEqual(JSON.parse(await readFile(path, 'utf8')), []);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('FileOutboxStorage survives overlapping saves, and a corrupt file fails calls instead of the process', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'gloss-outbox-'));
+  const path = join(dir, 'outbox.json');
+
+  try {
+    const client = createClient(createStore(), { storage: new FileOutboxStorage(path) });
+    const entries = await Promise.all([1, 2, 3, 4, 5].map(i => client.log(`entry ${i}`)));
+    await client.flush();
+    assert.deepEqual(
+      JSON.parse(await readFile(path, 'utf8')).map(record => record.key).sort(),
+      entries.map(entry => entry.key).sort()
+    );
+    assert.deepEqual(await readdir(dir), ['outbox.json']);
+
+    await writeFile(path, '{ not json', 'utf8');
+    const broken = createClient(createStore(), { storage: new FileOutboxStorage(path) });
+    await new Promise(resolve => setImmediate(resolve));
+    await assert.rejects(broken.log('queued nowhere'), SyntaxError);
+    await assert.rejects(broken.pending(), SyntaxError);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('private entries are encrypted before they are queued', async () => {
+  const { PrivateKey, ProtoWallet } = await import('@bsv/sdk');
+  const dir = await mkdtemp(join(tmpdir(), 'gloss-outbox-'));
+  const path = join(dir, 'outbox.json');
+
+  try {
+    const store = createStore();
+    const delivered = [];
+    const client = new GlossClient({
+      wallet: new ProtoWallet(PrivateKey.fromRandom()),
+      outbox: { baseDelayMs: 60_000, storage: new FileOutboxStorage(path) },
+      middleware: [{ afterWrite: entry => delivered.push(entry.text) }]
+    });
+    client.kv = { ...store.kv, get: async () => [] };
+
+    const entry = await client.log('Rotated the staging keys', { recipients: ['self'], tags: ['ops'], idempotencyKey: 'rotate-1' });
+    assert.equal(entry.text, 'Rotated the staging keys');
+    await client.flush();
+    const file = await readFile(path, 'utf8');
+    assert.ok(!file.includes('Rotated the staging keys'));
+    assert.ok(!file.includes('ops'));
+    assert.ok(JSON.parse(JSON.parse(file)[0].value).sealed);
+
+    // A retry still finds the queued entry, and reads it back.
+    assert.equal((await client.log('Rotated the staging keys', { recipients: ['self'], idempotencyKey: 'rotate-1' })).text, entry.text);
+
+    store.online = true;
+    await client.flush();
+    assert.equal(store.writes.length, 1);
+    assert.ok(store.writes[0].value.sealed);
+    assert.ok(!JSON.stringify(store.writes[0].value).includes('Rotated'));
+    assert.deepEqual(delivered, ['Rotated the staging keys']);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('retry times follow the client clock, however far it is from the system time', async () => {
+  for (const offset of [3_600_000, 30 * 86_400_000, -3_600_000]) {
+    const store = createStore();
+    store.online = true;
+    const client = new GlossClient({
+      wallet: stubWallet(controller),
+      clock: () => new Date(Date.now() + offset),
+      outbox: { baseDelayMs: 10 }
+    });
+    client.kv = store.kv;
+
+    const entry = await client.log(`offset ${offset}`);
+    let timer;
+    const timeout = new Promise((_, reject) => {
+      timer = setTimeout(() => reject(new Error('not delivered')), 2000);
+    });
+    await Promise.race([client.delivered(entry.key), timeout]).finally(() => clearTimeout(timer));
+    assert.equal(store.writes.length, 1);
+    assert.deepEqual(await client.pending(), []);
+  }
+});
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { MemoryGlossStore } from '../dist/index.js';
+import { createClient as createTestClient } from './helpers.mjs';
+
+function createClient(store, identity) {
+  const state = { now: Date.parse('2026-07-23T12:00:00.000Z') };
+  // Each reading of the clock is one second later.
+  const clock = () => new Date((state.now += 1000) - 1000);
+  return createTestClient(store, identity, state, { clock });
+}
+
+test('MemoryGlossStore keeps a lineage per controller with history and tip txids', async () => {
+  const store = new MemoryGlossStore();
+  const first = await store.set('entry/2026-07-23', 'one', { controller: '02alice', tags: ['a'] });
+  const second = await store.set('entry/2026-07-23', 'two', { controller: '02alice', tags: ['b'] });
+  await store.set('entry/2026-07-23', 'other', { controller: '02bob', tags: ['a'] });
+  await store.set('entry/2026-07-24', 'next day', { controller: '02alice' });
+  assert.notEqual(first, second);
+
+  const rows = await store.get({ key: 'entry/2026-07-23' }, { history: true, includeToken: true });
+  assert.deepEqual(rows.map(row => [row.controller, row.value, row.history]), [
+    ['02alice', 'two', ['one', 'two']],
+    ['02bob', 'other', ['other']]
+  ]);
+  assert.equal(`${rows[0].token.txid}.0`, second);
+
+  const plain = await store.get({ key: 'entry/2026-07-23', controller: '02alice' });
+  assert.equal(plain[0].history, undefined);
+  assert.equal(plain[0].token, undefined);
+
+  assert.deepEqual((await store.get({ tags: ['a'] })).map(row => row.value), ['other']);
+  assert.deepEqual((await store.get({ tags: ['a', 'b'], tagQueryMode: 'any' })).map(row => row.value), ['two', 'other']);
+  assert.deepEqual((await store.get({ key: 'entry/2026-07-23', limit: 1, skip: 1 })).map(row => row.controller), ['02bob']);
+
+  await store.remove('entry/2026-07-23', { controller: '02alice' });
+  assert.deepEqual((await store.get({ key: 'entry/2026-07-23' })).map(row => row.controller), ['02bob']);
+  await assert.rejects(store.remove('entry/2026-07-23', { controller: '02alice' }), /No lineage/);
+});
+
+test('clients sharing a MemoryGlossStore read each other without a wallet or overlay', async () => {
+  const store = new MemoryGlossStore();
+  const alice = createClient(store, '02alice');
+  const bob = createClient(store, '02bob');
+
+  const draft = await alice.log('Draft', { tags: ['notes'] });
+  await bob.log('Hello from Bob');
+  await alice.updateEntryByKey(draft.key, 'Final');
+
+  const entries = await bob.listDay('2026-07-23', { includeTxid: true });
+  assert.deepEqual(entries.map(entry => [entry.controller, entry.text]).sort(), [
+    ['02alice', 'Final'],
+    ['02bob', 'Hello from Bob']
+  ]);
+  const [tip] = await store.get({ key: 'entry/2026-07-23', controller: '02alice' }, { includeToken: true });
+  assert.equal(entries.find(entry => entry.controller === '02alice').txid, tip.token.txid);
+
+  const history = await bob.getLogHistory(draft.key);
+  assert.deepEqual(history.map(entry => entry.text), ['Final', 'Draft']);
+
+  assert.equal(await alice.removeDay('2026-07-23'), true);
+  assert.deepEqual((await bob.listDay('2026-07-23')).map(entry => entry.controller), ['02bob']);
+  assert.equal(await alice.removeDay('2026-07-23'), false);
+});
@@ -0,0 +1,162 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  attachConsole,
+  createTransportStream,
+  GlossClient,
+  GlossTransport,
+  MemoryGlossStore,
+  OverlayUnavailableError,
+  PolicyViolationError
+} from '../dist/index.js';
+import { stubWallet } from './helpers.mjs';
+
+// Records every logMany() call; `fail` decides whether a batch is rejected.
+function createRecorder(fail = () => undefined) {
+  const recorder = { calls: [] };
+  recorder.logMany = async entries => {
+    const error = fail(entries);
+    if (error) throw error;
+    recorder.calls.push(entries);
+    return entries;
+  };
+  return recorder;
+}
+
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+test('records are filtered, mapped to entries and written in batches', async () => {
+  const store = new MemoryGlossStore();
+  const client = new GlossClient({
+    wallet: stubWallet('02service'),
+    store,
+    timeZone: 'UTC',
+    clock: () => new Date('2026-07-23T10:00:00.000Z')
+  });
+  const transport = new GlossTransport(client, {
+    tags: ['api'],
+    tagKeys: ['service'],
+    excludeTags: ['healthcheck'],
+    context: { environment: 'staging' }
+  });
+
+  assert.equal(transport.write({ level: 'debug', message: 'Too chatty' }), false);
+  assert.equal(transport.write({ level: 'error', message: '' }), false);
+  assert.equal(transport.write({ level: 'error', message: '   ', metadata: { service: 'api' } }), false);
+  assert.equal(transport.write({ level: 'error' }), false);
+  assert.equal(transport.write({ level: 'info', message: 'Ping', metadata: { service: 'healthcheck' } }), false);
+  assert.equal(transport.write({
+    level: 'fatal',
+    message: 'Database unreachable',
+    metadata: { service: 'billing worker', attempt: 3, cause: { code: 'ECONNREFUSED' }, 'bad name': 1 }
+  }), true);
+  transport.write({ level: 40, message: 'Slow query' });
+  assert.equal(transport.pending, 2);
+
+  assert.deepEqual(await transport.close(), { written: 2, pending: 0, dropped: 0 });
+  assert.equal(transport.write({ message: 'Too late' }), false);
+
+  const entries = await client.listDay('2026-07-23');
+  assert.deepEqual(entries.map(entry => [entry.text, entry.level, entry.tags]), [
+    ['Database unreachable', 'error', ['api', 'billing-worker']],
+    ['Slow query', 'warn', ['api']]
+  ]);
+  assert.deepEqual(entries[0].fields, { attempt: 3 });
+  assert.deepEqual(entries[0].context, { environment: 'staging' });
+  // One logMany() envelope: a single transaction.
+  assert.equal((await store.get({ key: 'entry/2026-07-23' }, { history: true }))[0].history.length, 1);
+});
+
+test('writes are rate limited and a burst waits in a bounded buffer', async () => {
+  let now = 0;
+  const client = createRecorder();
+  const transport = new GlossTransport(client, {
+    maxBatchSize: 2,
+    maxWritesPerMinute: 2,
+    maxBuffered: 5,
+    clock: () => now
+  });
+
+  const texts = () => client.calls.map(batch => batch.map(entry => entry.text));
+  for (let i = 1; i <= 4; i++) transport.write({ message: `Line ${i}` });
+  await settle();
+  assert.deepEqual(texts(), [['Line 1', 'Line 2'], ['Line 3', 'Line 4']]);
+
+  // Over the limit: the burst waits, and the oldest line is dropped once the buffer is full.
+  for (let i = 5; i <= 10; i++) transport.write({ message: `Line ${i}` });
+  await settle();
+  assert.equal(client.calls.length, 2);
+  assert.equal(transport.pending, 5);
+  assert.equal(transport.dropped, 1);
+
+  now += 60_000;
+  transport.write({ message: 'Line 11' });
+  await settle();
+  assert.deepEqual(texts().slice(2), [['Line 7', 'Line 8'], ['Line 9', 'Line 10']]);
+  assert.equal(transport.dropped, 2);
+
+  assert.deepEqual(await transport.close(), { written: 1, pending: 0, dropped: 2 });
+});
+
+test('rejected records are isolated and dropped, transient failures are retried', async () => {
+  const errors = [];
+  let offline = true;
+  const client = createRecorder(entries => {
+    if (offline) return new OverlayUnavailableError('ECONNRESET');
+    if (entries.some(entry => entry.text.includes('token'))) return new PolicyViolationError('secret', []);
+  });
+  const transport = new GlossTransport(client, {
+    onError: (error, records) => errors.push([error.code, records.map(record => record.message)])
+  });
+
+  ['One', 'Two', 'My token is abc', 'Four'].forEach(message => transport.write({ message }));
+  assert.deepEqual(await transport.flush(), { written: 0, pending: 4, dropped: 0 });
+
+  offline = false;
+  assert.deepEqual(await transport.flush(), { written: 3, pending: 0, dropped: 1 });
+  assert.deepEqual(client.calls.map(batch => batch.map(entry => entry.text)), [['One', 'Two'], ['Four']]);
+  assert.deepEqual(errors, [
+    ['OVERLAY_UNAVAILABLE', ['One', 'Two', 'My token is abc', 'Four']],
+    ['POLICY_VIOLATION', ['My token is abc']]
+  ]);
+  await transport.close();
+});
+
+test('console and stream adapters feed the transport', async () => {
+  const client = createRecorder();
+  const transport = new GlossTransport(client, { tagKeys: ['module'] });
+
+  const printed = [];
+  const fakeConsole = {};
+  for (const method of ['debug', 'log', 'info', 'warn', 'error']) {
+    fakeConsole[method] = (...args) => printed.push(`${method}: ${args.join(' ')}`);
+  }
+  const original = fakeConsole.warn;
+  const detach = attachConsole(transport, fakeConsole);
+  fakeConsole.log('Started on port', 8080);
+  fakeConsole.debug('Not published');
+  fakeConsole.warn('Cache miss', { key: 'user:1' });
+  detach();
+  assert.equal(fakeConsole.warn, original);
+  fakeConsole.error('After detaching');
+  assert.deepEqual(printed, ['log: Started on port 8080', 'debug: Not published', 'warn: Cache miss [object Object]', 'error: After detaching']);
+
+  const stream = createTransportStream(transport);
+  const line = JSON.stringify({ level: 50, time: 1, pid: 7, hostname: 'web-1', msg: 'Payment failed', module: 'checkout', orderId: 'o-1' });
+  stream.write(line.slice(0, 20));
+  stream.write(new TextEncoder().encode(`${line.slice(20)}\nplain text line\n`));
+  stream.write({ level: 'warn', message: 'From winston', module: 'auth' });
+  stream.write('{"level":30,"msg":"unterminated"}');
+  await stream.end();
+
+  assert.deepEqual(client.calls.flat().map(entry => [entry.level, entry.text, entry.tags, entry.fields]), [
+    ['info', 'Started on port 8080', [], undefined],
+    ['warn', 'Cache miss {"key":"user:1"}', [], undefined],
+    ['error', 'Payment failed', ['checkout'], { orderId: 'o-1' }],
+    ['info', 'plain text line', [], undefined],
+    ['warn', 'From winston', ['auth'], undefined],
+    ['info', 'unterminated', [], undefined]
+  ]);
+  await transport.close();
+});
@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { GlossClient } from '../dist/index.js';
+import { stubWallet } from './helpers.mjs';
+
+const controller = '02test-controller';
+
+function entry(day, time, text) {
+  return {
+    key: `${day}/${time}-000aaaa`,
+    at: `${day}T12:00:00.000Z`,
+    text,
+    controller
+  };
+}
+
+// A client whose store holds one lineage per day and whose "today" is settable.
+function createClient() {
+  const client = new GlossClient({ wallet: stubWallet(controller) });
+  const days = {};
+  const state = { today: '2026-07-23', failNext: 0 };
+
+  client.getLocalDate = () => state.today;
+  client.kv = {
+    get: async (query) => {
+      if (state.failNext > 0) {
+        state.failNext--;
+        throw new Error('overlay unavailable');
+      }
+      // Only the shared day lineage is used here; device queries find nothing.
+      if (!query.key) return [];
+      const values = days[query.key.slice('entry/'.length)] ?? [];
+      if (values.length === 0) return [];
+      const history = values.map(value => JSON.stringify(value));
+      return [{ controller, value: history[history.length - 1], history }];
+    }
+  };
+
+  const append = (value) => {
+    const day = value.key.slice(0, 10);
+    (days[day] ??= []).push(value);
+  };
+
+  return { client, state, append };
+}
+
+async function take(iterator, count) {
+  const values = [];
+  while (values.length < count) {
+    const { value, done } = await iterator.next();
+    if (done) break;
+    values.push(value);
+  }
+  return values;
+}
+
+test('watch skips existing entries, yields new ones once and ignores revisions', async () => {
+  const { client, append } = createClient();
+  append(entry('2026-07-23', '090000', 'already there'));
+
+  const watcher = client.watch({ intervalMs: 1 });
+  const iterator = watcher[Symbol.asyncIterator]();
+
+  setTimeout(() => {
+    append(entry('2026-07-23', '100000', 'new post'));
+    append({ ...entry('2026-07-23', '090000', 'already there'), text: 'revised' });
+  }, 5);
+
+  const [first] = await take(iterator, 1);
+  assert.equal(first.text, 'new post');
+  assert.equal(watcher.cursor.day, '2026-07-23');
+  assert.equal(watcher.cursor.seen.length, 2);
+
+  setTimeout(() => append(entry('2026-07-23', '110000', 'another')), 5);
+  const [second] = await take(iterator, 1);
+  assert.equal(second.text, 'another');
+
+  watcher.stop();
+  assert.deepEqual(await iterator.next(), { value: undefined, done: true });
+});
+
+test('watch drains the previous day at midnight before moving to the next day key', async () => {
+  const { client, state, append } = createClient();
+  const watcher = client.watch({ intervalMs: 1 });
+  const iterator = watcher[Symbol.asyncIterator]();
+
+  setTimeout(() => {
+    append(entry('2026-07-23', '235959', 'last post of the day'));
+    append(entry('2026-07-24', '000001', 'first post of the next day'));
+    state.today = '2026-07-24';
+  }, 5);
+
+  const entries = await take(iterator, 2);
+  assert.deepEqual(entries.map(log => log.text), ['last post of the day', 'first post of the next day']);
+  assert.equal(watcher.cursor.day, '2026-07-24');
+  watcher.stop();
+});
+
+test('watch resumes from a serialized cursor without replaying delivered entries', async () => {
+  const { client, state, append } = createClient();
+  append(entry('2026-07-23', '090000', 'delivered'));
+  append(entry('2026-07-23', '100000', 'missed while offline'));
+  append(entry('2026-07-24', '080000', 'posted the next day'));
+  state.today = '2026-07-24';
+
+  const cursor = JSON.parse(JSON.stringify({
+    day: '2026-07-23',
+    seen: [`${controller}\u0000${'2026-07-23/090000-000aaaa'}`]
+  }));
+  const watcher = client.watch({ cursor, intervalMs: 1 });
+  const entries = await take(watcher[Symbol.asyncIterator](), 2);
+
+  assert.deepEqual(entries.map(log => log.text), ['missed while offline', 'posted the next day']);
+  watcher.stop();
+});
+
+test('watch backs off after failed polls and reports errors', async () => {
+  const { client, state, append } = createClient();
+  const errors = [];
+  state.failNext = 2;
+  append(entry('2026-07-23', '090000', 'visible after recovery'));
+
+  const watcher = client.watch({
+    includeExisting: true,
+    intervalMs: 1,
+    backoffFactor: 3,
+    onError: error => errors.push(error.message)
+  });
+  const [log] = await take(watcher[Symbol.asyncIterator](), 1);
+
+  assert.equal(log.text, 'visible after recovery');
+  assert.deepEqual(errors, ['overlay unavailable', 'overlay unavailable']);
+  watcher.stop();
+});
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import test from 'node:test';
+
+import { StorageUtils } from '@bsv/sdk';
+import { MemoryGlossStore } from '../dist/index.js';
+import { createClient as createTestClient } from './helpers.mjs';
+
+const day = '2026-07-23';
+const content = new TextEncoder().encode('screenshot bytes');
+const tampered = new TextEncoder().encode('something else');
+
+function createClient(options = {}) {
+  const state = { now: Date.parse(`${day}T10:00:00.000Z`) };
+  return createTestClient(options.store ?? new MemoryGlossStore(), '02alice', state, options);
+}
+
+// A local host serving fixed bodies by path.
+async function startServer(routes) {
+  const server = createServer((req, res) => {
+    const body = routes[req.url];
+    if (!body) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { 'content-type': 'image/png' }).end(Buffer.from(body));
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${server.address().port}`;
+  return { base, close: () => new Promise(resolve => server.close(resolve)) };
+}
+
+test('assets are stored as descriptors and string-only entries still read', async () => {
+  const store = new MemoryGlossStore();
+  const client = createClient({ store });
+  const asset = { url: 'uhrp://one', mimeType: 'image/png', size: 16, filename: 'shot.png' };
+
+  const entry = await client.log('With descriptors', { assets: ['uhrp://bare', asset] });
+  assert.deepEqual(entry.assets, [{ url: 'uhrp://bare' }, asset]);
+  assert.deepEqual((await client.listDay(day))[0].assets, [{ url: 'uhrp://bare' }, asset]);
+  await assert.rejects(client.log('Broken', { assets: [{ mimeType: 'image/png' }] }), /Invalid asset/);
+
+  const legacy = JSON.stringify({
+    v: 1, key: `${day}/090000-000aaaa`, at: `${day}T09:00:00.000Z`, text: 'Old', assets: ['uhrp://old']
+  });
+  await store.set(`entry/${day}`, legacy, { controller: '02bob' });
+  const old = (await client.listDay(day, { controller: '02bob' }))[0];
+  assert.deepEqual(old.assets, [{ url: 'uhrp://old' }]);
+});
+
+test('downloadAsset verifies content against the UHRP hash and falls back between hosts', async () => {
+  const server = await startServer({ '/good': content, '/bad': tampered });
+  try {
+    const url = StorageUtils.getURLForFile(Array.from(content));
+    const hosts = [`${server.base}/missing`, `${server.base}/bad`, `${server.base}/good`];
+    const client = createClient({ resolveAsset: async () => hosts });
+
+    const result = await client.downloadAsset({ url, filename: 'shot.png' });
+    assert.deepEqual(result.data, content);
+    assert.equal(result.source, `${server.base}/good`);
+    assert.equal(result.mimeType, 'image/png');
+    assert.equal(result.verified, true);
+
+    const badOnly = createClient({ resolveAsset: async () => [`${server.base}/bad`] });
+    await assert.rejects(badOnly.downloadAsset(url), /does not match/);
+
+    const unchecked = await badOnly.downloadAsset(url, { verify: false });
+    assert.deepEqual(unchecked.data, tampered);
+    assert.equal(unchecked.verified, false);
+
+    const nowhere = createClient({ resolveAsset: async () => [] });
+    await assert.rejects(nowhere.downloadAsset(url), /No host found/);
+  } finally {
+    await server.close();
+  }
+});
+
+test('downloadAsset fetches plain URLs through the injected fetch and checks descriptor hashes', async () => {
+  const requested = [];
+  const client = createClient({
+    fetch: async url => {
+      requested.push(url);
+      return {
+        ok: true,
+        status: 200,
+        headers: { get: () => null },
+        arrayBuffer: async () => content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength)
+      };
+    }
+  });
+
+  const plain = await client.downloadAsset({ url: 'https://example.com/shot.png', mimeType: 'image/png' });
+  assert.deepEqual(requested, ['https://example.com/shot.png']);
+  assert.equal(plain.mimeType, 'image/png');
+  assert.equal(plain.verified, false);
+
+  await assert.rejects(
+    client.downloadAsset({ url: 'https://example.com/shot.png', hash: '00'.repeat(32) }),
+    /Could not download/
+  );
+});
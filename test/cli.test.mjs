@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { runCli } from '../dist/cli.js';
+import { GlossClient, MemoryGlossStore } from '../dist/index.js';
+import { stubWallet } from './helpers.mjs';
+
+const controller = '02cli-controller-key';
+
+function createHarness(files = {}) {
+  const store = new MemoryGlossStore();
+  const harness = { out: '', err: '', configs: [], written: {} };
+  harness.run = async (...args) => {
+    harness.out = '';
+    harness.err = '';
+    return runCli(args, {
+      stdout: text => { harness.out += text; },
+      stderr: text => { harness.err += text; },
+      env: harness.env ?? {},
+      readFile: async path => {
+        if (!(path in files)) throw Object.assign(new Error(`ENOENT: ${path}`), { code: 'ENOENT' });
+        return new TextEncoder().encode(files[path]);
+      },
+      writeFile: async (path, data) => { harness.written[path] = data; },
+      createClient: config => {
+        harness.configs.push(config);
+        const client = new GlossClient({ ...config, wallet: stubWallet(controller), store, clock: () => new Date('2026-07-23T12:00:00.000Z') });
+        client.uploadAsset = async (data, mimeType, options) => ({
+          uhrpURL: 'uhrp://uploaded',
+          published: true,
+          asset: { url: 'uhrp://uploaded', mimeType, size: data.length, filename: options.filename }
+        });
+        return client;
+      }
+    });
+  };
+  return harness;
+}
+
+test('log, ls, edit, history and rm work end to end with tables and JSON', async () => {
+  const cli = createHarness({ 'shot.png': 'png-bytes' });
+
+  assert.equal(await cli.run('log', 'Deployed', 'v2', '--tag', 'deploy', '--time-zone', 'UTC'), 0);
+  const key = cli.out.trim();
+  assert.match(key, /^2026-07-23\/120000-000/);
+
+  assert.equal(await cli.run('ls', '2026-07-23', '--tag', 'deploy'), 0);
+  assert.equal(cli.out, [
+    'KEY                        AUTHOR       TAGS    TEXT',
+    `${key}  02cli-cont…  deploy  Deployed v2`,
+    ''
+  ].join('\n'));
+
+  assert.equal(await cli.run('log', 'Screenshot', '--attach', 'shot.png', '--json', '--time-zone', 'UTC'), 0);
+  assert.deepEqual(JSON.parse(cli.out).assets, [{ url: 'uhrp://uploaded', mimeType: 'image/png', size: 9, filename: 'shot.png' }]);
+
+  assert.equal(await cli.run('ls', '2026-07-23', '--json'), 0);
+  assert.deepEqual(JSON.parse(cli.out).map(entry => entry.text).sort(), ['Deployed v2', 'Screenshot']);
+
+  assert.equal(await cli.run('edit', key, 'Deployed', 'v2.1'), 0);
+  assert.equal(await cli.run('history', key, '--json'), 0);
+  assert.deepEqual(JSON.parse(cli.out).map(entry => entry.text), ['Deployed v2.1', 'Deployed v2']);
+
+  assert.equal(await cli.run('rm', key, '--reason', 'rollback', '--json'), 0);
+  assert.deepEqual(JSON.parse(cli.out), { removed: true });
+  assert.equal(await cli.run('edit', key, 'again'), 1);
+  assert.match(cli.err, /No entry/);
+  assert.equal(await cli.run('rm', '2026-07-23'), 0);
+  assert.equal(await cli.run('ls', '2026-07-23'), 0);
+  assert.equal(cli.out, 'No entries.\n');
+});
+
+test('settings come from the config file, then env vars, then flags', async () => {
+  const cli = createHarness({ '/home/dev/.glossrc.json': '{"networkPreset":"testnet","walletMode":"local","timeZone":"UTC"}' });
+  cli.env = { HOME: '/home/dev' };
+  await cli.run('ls');
+  assert.deepEqual(cli.configs.pop(), { networkPreset: 'testnet', walletMode: 'local', timeZone: 'UTC' });
+
+  cli.env = { HOME: '/home/dev', GLOSS_NETWORK: 'mainnet' };
+  await cli.run('ls', '--wallet-mode', 'auto');
+  assert.deepEqual(cli.configs.pop(), { networkPreset: 'mainnet', walletMode: 'auto', timeZone: 'UTC' });
+
+  cli.env = {};
+  assert.equal(await cli.run('ls', '--config', 'missing.json'), 1);
+  assert.match(cli.err, /Cannot read config file missing\.json/);
+  assert.equal(await cli.run('ls', '--network', 'regtest'), 1);
+  assert.match(cli.err, /Invalid network/);
+});
+
+test('export writes documents and usage errors exit with 2', async () => {
+  const cli = createHarness();
+  await cli.run('log', 'Release notes', '--tag', 'release', '--time-zone', 'UTC');
+
+  assert.equal(await cli.run('export', '2026-07-23', '--format', 'markdown', '--out', 'digest.md'), 0);
+  assert.match(cli.written['digest.md'], /^# Gloss digest for 2026-07-23/);
+  assert.equal(await cli.run('export', '2026-07-23'), 0);
+  assert.equal(JSON.parse(cli.out.trim()).text, 'Release notes');
+
+  assert.equal(await cli.run('frobnicate'), 2);
+  assert.match(cli.err, /unknown command/);
+  assert.equal(await cli.run('ls', '--bogus'), 2);
+  assert.equal(await cli.run('history'), 2);
+  assert.match(cli.err, /Expected an entry key\n\nUsage: gloss/);
+  assert.equal(await cli.run('ls', '2026-13-01'), 2);
+  assert.match(cli.err, /Invalid date: 2026-13-01/);
+  assert.equal(await cli.run('export', '2026-02-30'), 2);
+  assert.equal(await cli.run('log'), 2);
+  assert.equal(await cli.run('ls', '--limit', 'lots'), 2);
+  assert.equal(await cli.run('--help'), 0);
+  assert.match(cli.out, /^Usage: gloss/);
+});
+
+test('log refuses likely secrets unless --allow-secrets is given', async () => {
+  const cli = createHarness();
+
+  assert.equal(await cli.run('log', 'api_key=Zx8qL2vN7pR4tY1wK9mB3cF6hJ0s', '--time-zone', 'UTC'), 1);
+  assert.match(cli.err, /possible secrets \(credential in text\)/);
+  assert.ok(!cli.err.includes('Zx8qL2vN7pR4tY1wK9mB3cF6hJ0s'));
+  assert.equal(await cli.run('log', 'api_key=Zx8qL2vN7pR4tY1wK9mB3cF6hJ0s', '--allow-secrets', '--time-zone', 'UTC'), 0);
+});
+
+test('log with --idempotency-key writes once and prints the same entry again', async () => {
+  const cli = createHarness();
+
+  assert.equal(await cli.run('log', 'Nightly build passed', '--idempotency-key', 'build-41', '--time-zone', 'UTC', '--json'), 0);
+  const first = JSON.parse(cli.out);
+  assert.equal(first.idempotencyKey, 'build-41');
+  assert.equal(await cli.run('log', 'Nightly build passed', '--idempotency-key', 'build-41', '--time-zone', 'UTC'), 0);
+  assert.equal(cli.out, `${first.key}\n`);
+
+  assert.equal(await cli.run('ls', '--time-zone', 'UTC', '--json'), 0);
+  assert.equal(JSON.parse(cli.out).length, 1);
+});
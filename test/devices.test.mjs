@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { MemoryGlossStore } from '../dist/index.js';
+import { createClient as createTestClient } from './helpers.mjs';
+
+const day = '2026-07-23';
+
+// The clock moves on a millisecond each time it is read, so entries never share a timestamp.
+function createClient(store, identity, state, options = {}) {
+  return createTestClient(store, identity, state, { clock: () => new Date(state.now++), ...options });
+}
+
+async function lineageKeys(store, controller) {
+  return (await store.get({ key: `entry/${day}`, controller }))
+    .concat(await store.get({ tags: [`devices/${day}`], controller }))
+    .map(row => row.key)
+    .sort();
+}
+
+test('devices write their own lineages and every reader merges them with the shared one', async () => {
+  const store = new MemoryGlossStore();
+  const state = { now: Date.parse(`${day}T09:00:00.000Z`) };
+  const legacy = createClient(store, '02alice', state);
+  const laptop = createClient(store, '02alice', state, { deviceId: 'laptop' });
+  const desktop = createClient(store, '02alice', state, { deviceId: 'desktop' });
+  const reader = createClient(store, '02reader', state);
+
+  await legacy.log('Before devices');
+  await laptop.log('From the laptop', { tags: ['deploy'] });
+  await desktop.log('From the desktop');
+
+  const keys = await lineageKeys(store, '02alice');
+  assert.equal(keys.length, 3);
+  assert.equal(keys[0], `entry/${day}`);
+  assert.ok(keys.slice(1).every(key => /^entry\/2026-07-23\/[0-9a-f]{16}$/.test(key)));
+
+  assert.deepEqual((await reader.listDay(day)).map(entry => entry.text), [
+    'Before devices',
+    'From the laptop',
+    'From the desktop'
+  ]);
+  assert.equal((await reader.listDay(day, { controller: '02alice' })).length, 3);
+  // One page of each query counts as one page, so device lineages are read too.
+  assert.equal((await reader.listDay(day, { maxPages: 1 })).length, 3);
+  assert.equal((await reader.listRange(day, day, { maxPages: 1, pageSize: 10 })).length, 3);
+  assert.deepEqual((await reader.listDay(day, { tags: ['deploy'] })).map(entry => entry.text), ['From the laptop']);
+
+  const cached = createClient(store, '02reader', state, { cache: { ttlMs: 60_000 } });
+  assert.equal((await cached.listDay(day)).length, 3);
+  assert.deepEqual(await cached.sync(day), { days: 1, fetched: 0 });
+});
+
+test('edits and removals go to the lineage holding the entry', async () => {
+  const store = new MemoryGlossStore();
+  const state = { now: Date.parse(`${day}T09:00:00.000Z`) };
+  const legacy = createClient(store, '02alice', state);
+  const laptop = createClient(store, '02alice', state, { deviceId: 'laptop' });
+  const desktop = createClient(store, '02alice', state, { deviceId: 'desktop' });
+
+  const old = await legacy.log('Shared draft');
+  const note = await laptop.log('Laptop draft');
+  const before = await lineageKeys(store, '02alice');
+
+  await desktop.updateEntryByKey(note.key, 'Edited on the desktop');
+  await desktop.updateEntryByKey(old.key, 'Shared, edited on the desktop');
+  // No lineage was created for the desktop.
+  assert.deepEqual(await lineageKeys(store, '02alice'), before);
+  assert.deepEqual((await laptop.getLogHistory(note.key)).map(entry => entry.text), ['Edited on the desktop', 'Laptop draft']);
+
+  assert.equal(await desktop.removeEntry(note.key), true);
+  assert.deepEqual((await legacy.listDay(day)).map(entry => entry.text), ['Shared, edited on the desktop']);
+
+  await desktop.log('Desktop note');
+  assert.equal(await legacy.removeDay(day), true);
+  assert.deepEqual(await lineageKeys(store, '02alice'), []);
+  assert.deepEqual(await desktop.listDay(day), []);
+});
+
+test('the later revision wins when a controller has one entry in two lineages', async () => {
+  const store = new MemoryGlossStore();
+  const state = { now: Date.parse(`${day}T09:00:00.000Z`) };
+  const legacy = createClient(store, '02alice', state);
+  const entry = await legacy.log('Original');
+
+  // An import on another device re-creates the entry in its own lineage.
+  const laptop = createClient(store, '02alice', state, { deviceId: 'laptop' });
+  const backup = await legacy.exportEntries(day, day, 'ndjson');
+  await legacy.updateEntryByKey(entry.key, 'Edited in the shared lineage');
+  const later = backup.replace('"text":"Original"', '"text":"Restored on the laptop"')
+    .replace(/"at":"[^"]+"/, `"at":"${new Date(state.now + 60_000).toISOString()}"`);
+  await laptop.importEntries(later);
+
+  assert.deepEqual((await legacy.listDay(day)).map(log => log.text), ['Restored on the laptop']);
+});
@@ -0,0 +1,140 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  DoubleSpendConflictError,
+  GlossError,
+  InvalidEntryError,
+  MemoryGlossStore,
+  MemoryOutboxStorage,
+  NotFoundError,
+  NotOwnerError,
+  OverlayUnavailableError,
+  WalletUnavailableError
+} from '../dist/index.js';
+import { createClient as createTestClient } from './helpers.mjs';
+
+const day = '2026-07-23';
+
+function createClient(options = {}) {
+  const state = { now: Date.parse(`${day}T10:00:00.000Z`) };
+  return createTestClient(options.store ?? new MemoryGlossStore(), options.identity ?? '02alice', state, options);
+}
+
+// A MemoryGlossStore whose set() throws the queued failures first.
+function flakyStore(...failures) {
+  const store = new MemoryGlossStore();
+  const set = store.set.bind(store);
+  store.attempts = 0;
+  store.set = async (...args) => {
+    store.attempts++;
+    if (failures.length > 0) throw failures.shift();
+    return set(...args);
+  };
+  return store;
+}
+
+function doubleSpend() {
+  return Object.assign(new Error('Transaction was rejected'), {
+    name: 'WERR_REVIEW_ACTIONS',
+    reviewActionResults: [{ txid: 'a'.repeat(64), status: 'doubleSpend' }]
+  });
+}
+
+test('store failures are classified and only retryable ones are retried under the policy', async () => {
+  const noRetry = createClient({ store: flakyStore(new Error('ECONNRESET')) });
+  await assert.rejects(noRetry.log('Lost'), error => {
+    assert.ok(error instanceof OverlayUnavailableError);
+    assert.ok(error instanceof GlossError);
+    assert.equal(error.code, 'OVERLAY_UNAVAILABLE');
+    assert.equal(error.retryable, true);
+    assert.equal(error.message, 'ECONNRESET');
+    assert.equal(error.cause.message, 'ECONNRESET');
+    return true;
+  });
+
+  const retries = [];
+  const store = flakyStore(new Error('ECONNRESET'), doubleSpend());
+  const client = createClient({
+    store,
+    retry: { attempts: 3, baseDelayMs: 1, onRetry: (error, attempt) => retries.push([error.code, attempt]) }
+  });
+  const entry = await client.log('Delivered on the third try');
+  assert.equal(store.attempts, 3);
+  assert.deepEqual(retries, [['OVERLAY_UNAVAILABLE', 1], ['DOUBLE_SPEND_CONFLICT', 2]]);
+  assert.deepEqual((await client.listDay(day)).map(log => log.key), [entry.key]);
+
+  const brokeStore = flakyStore(Object.assign(new Error('Insufficient funds'), { name: 'WERR_INSUFFICIENT_FUNDS' }));
+  const broke = createClient({ store: brokeStore, retry: { attempts: 3, baseDelayMs: 1 } });
+  await assert.rejects(broke.log('Unfunded'), error => error instanceof WalletUnavailableError && !error.retryable);
+  assert.equal(brokeStore.attempts, 1);
+
+  const conflicted = createClient({ store: flakyStore(doubleSpend(), doubleSpend()), retry: { attempts: 2, baseDelayMs: 1 } });
+  await assert.rejects(conflicted.log('Conflicted'), DoubleSpendConflictError);
+});
+
+test('wallet failures and invalid input have their own error types', async () => {
+  const offline = createClient({
+    wallet: { getPublicKey: async () => { throw new Error('No wallet available over any communication substrate.'); } }
+  });
+  await assert.rejects(offline.log('Nobody to sign'), error => error instanceof WalletUnavailableError && error.retryable);
+
+  const client = createClient();
+  await assert.rejects(client.log('x', { level: 'fatal' }), error => {
+    assert.ok(error instanceof InvalidEntryError);
+    assert.equal(error.code, 'INVALID_ENTRY');
+    assert.equal(error.retryable, false);
+    return true;
+  });
+  await assert.rejects(client.importEntries('not json\n'), InvalidEntryError);
+
+  // Malformed arguments are invalid input too.
+  await assert.rejects(client.listRange('2026-02-30', day), InvalidEntryError);
+  await assert.rejects(client.listDay('yesterday'), error =>
+    error instanceof InvalidEntryError && /Invalid date: yesterday/.test(error.message));
+  await assert.rejects(client.listDayWithDiagnostics('2026-02-30'), InvalidEntryError);
+  await assert.rejects(client.getLogHistory('2026-13-01/nightly'), InvalidEntryError);
+  await assert.rejects(client.removeDay('2026-7-23'), InvalidEntryError);
+  await assert.rejects(client.listRange('2026-07-24', day), error =>
+    error instanceof InvalidEntryError && /Invalid date range/.test(error.message));
+  await assert.rejects(client.exportEntries(day, day, 'csv'), InvalidEntryError);
+  await assert.rejects(client.stats(day, day, { timeZone: 'Mars/Olympus' }), InvalidEntryError);
+  await assert.rejects(client.search('-draft'), InvalidEntryError);
+});
+
+test('edits and removals tell missing entries from entries owned by someone else', async () => {
+  const store = new MemoryGlossStore();
+  const alice = createClient({ store });
+  const bob = createClient({ store, identity: '02bob' });
+  const entry = await alice.log('Alice was here');
+
+  await assert.rejects(bob.updateEntryByKey(entry.key, 'Bob was here'), NotOwnerError);
+  await assert.rejects(bob.removeEntry(entry.key), NotOwnerError);
+  await assert.rejects(alice.updateEntryByKey(`${day}/235959-999zzzz`, 'Nothing'), NotFoundError);
+
+  assert.equal(await alice.removeEntry(entry.key), true);
+  // Removing again is a no-op; editing a removed entry is not possible.
+  assert.equal(await alice.removeEntry(entry.key), false);
+  await assert.rejects(alice.updateEntryByKey(entry.key, 'Back again'), NotFoundError);
+
+  assert.equal(await bob.removeDay(day), false);
+  assert.equal(await alice.removeDay(day), true);
+  store.remove = async () => { throw new Error('socket hang up'); };
+  await assert.rejects(alice.removeDay(day), OverlayUnavailableError);
+});
+
+test('outbox records keep the code of their last delivery failure', async () => {
+  const client = createClient({
+    store: flakyStore(new Error('ECONNREFUSED')),
+    outbox: { storage: new MemoryOutboxStorage(), baseDelayMs: 60_000 }
+  });
+  const entry = await client.log('Queued');
+  await client.flush();
+
+  const [record] = await client.pending();
+  assert.equal(record.key, entry.key);
+  assert.equal(record.lastErrorCode, 'OVERLAY_UNAVAILABLE');
+
+  await client.flush();
+  assert.deepEqual(await client.pending(), []);
+});
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { PrivateKey, ProtoWallet } from '@bsv/sdk';
+
+import { GlossClient, MemoryGlossStore } from '../dist/index.js';
+
+// Each reading of the clock is one second later.
+function createClient(wallet, store) {
+  let ticks = 0;
+  const clock = () => new Date(Date.parse('2026-07-23T12:00:00.000Z') + 1000 * ticks++);
+  return new GlossClient({ wallet, store, timeZone: 'UTC', clock });
+}
+
+// Drop what legitimately changes when entries move to another lineage.
+function portable(record) {
+  const { controller, txid, verification, revisions, ...rest } = record;
+  return { ...rest, revisions: revisions?.map(revision => portable(revision)) };
+}
+
+test('NDJSON export round-trips through importEntries, including revisions, tombstones and private entries', async () => {
+  const alice = createClient(new ProtoWallet(PrivateKey.fromRandom()), new MemoryGlossStore());
+  const draft = await alice.log('Draft notes', { tags: ['notes'], level: 'warn', fields: { build: 42 } });
+  await alice.updateEntryByKey(draft.key, 'Final notes', { tags: ['notes', 'final'] });
+  const removed = await alice.log('Mistake');
+  await alice.removeEntry(removed.key, { reason: 'typo' });
+  await alice.log('Just for me', { recipients: ['self'] });
+  await alice.log('See attachment', { assets: ['uhrp://asset-one'], context: { service: 'api' } });
+
+  const ndjson = await alice.exportEntries('2026-07-23', '2026-07-23', 'ndjson');
+  const lines = ndjson.trim().split('\n').map(line => JSON.parse(line));
+  assert.equal(lines.length, 4);
+  const notes = lines.find(line => line.key === draft.key);
+  assert.equal(notes.text, 'Final notes');
+  // Only the lineage tip carries a txid.
+  assert.match(lines[lines.length - 1].txid, /^[0-9a-f]{64}$/);
+  assert.deepEqual(notes.revisions.map(revision => revision.text), ['Draft notes']);
+  assert.equal(lines.find(line => line.key === removed.key).deleted, true);
+  assert.equal(lines.find(line => line.encrypted).text, 'Just for me');
+
+  const restoredStore = new MemoryGlossStore();
+  const restorer = createClient(new ProtoWallet(PrivateKey.fromRandom()), restoredStore);
+  const result = await restorer.importEntries(ndjson);
+  assert.deepEqual(result, { imported: 4, revisions: 6, skipped: [] });
+
+  const reexported = (await restorer.exportEntries('2026-07-23', '2026-07-23', 'ndjson'))
+    .trim().split('\n').map(line => JSON.parse(line));
+  assert.deepEqual(reexported.map(portable), lines.map(portable));
+  const restorerKey = (await restorer.listDay('2026-07-23'))[0].controller;
+  assert.ok(reexported.every(line => line.controller === restorerKey && line.verification === 'valid'));
+
+  assert.deepEqual(await restorer.importEntries(ndjson), { imported: 0, revisions: 0, skipped: [] });
+  await assert.rejects(restorer.importEntries('{"key":"nope"}\n'), /Invalid NDJSON on line 1/);
+});
+
+test('Markdown digests group entries by day and feeds list the newest entries first', async () => {
+  const store = new MemoryGlossStore();
+  const wallet = new ProtoWallet(PrivateKey.fromRandom());
+  const author = createClient(wallet, store);
+  const authorKey = (await wallet.getPublicKey({ identityKey: true })).publicKey;
+  await author.log('Unrelated');
+  await author.log('Shipped <v2> & friends', { tags: ['release'], assets: ['uhrp://notes'] });
+  await author.log('Follow-up fix', { tags: ['release'], level: 'error' });
+
+  const markdown = await author.exportEntries('2026-07-23', '2026-07-23', 'markdown', { tags: ['release'] });
+  assert.equal(markdown, [
+    '# Gloss digest for 2026-07-23',
+    '',
+    '## 2026-07-23',
+    '',
+    `- 12:00 **${authorKey.slice(0, 10)}…** Shipped <v2> & friends \`#release\``,
+    '  - [Asset 1](uhrp://notes)',
+    `- 12:00 [error] **${authorKey.slice(0, 10)}…** Follow-up fix \`#release\``,
+    ''
+  ].join('\n'));
+
+  const atom = await author.exportEntries('2026-07-23', '2026-07-23', 'atom', {
+    tags: ['release'],
+    feedUrl: 'https://example.com/release.atom'
+  });
+  assert.match(atom, /<id>https:\/\/example\.com\/release\.atom<\/id>/);
+  assert.match(atom, /<title>Gloss: #release<\/title>/);
+  assert.match(atom, /<content type="text">Shipped &lt;v2&gt; &amp; friends<\/content>/);
+  assert.match(atom, /<link rel="enclosure" href="uhrp:\/\/notes"\/>/);
+  assert.ok(atom.indexOf('Follow-up fix') < atom.indexOf('Shipped'));
+
+  const feed = JSON.parse(await author.exportEntries('2026-07-23', '2026-07-23', 'json-feed', { controller: authorKey }));
+  assert.equal(feed.version, 'https://jsonfeed.org/version/1.1');
+  assert.deepEqual(feed.items.map(item => item.content_text), ['Follow-up fix', 'Shipped <v2> & friends', 'Unrelated']);
+  assert.equal(feed.items[1].attachments[0].url, 'uhrp://notes');
+  assert.equal(feed.items[0]._gloss.level, 'error');
+
+  await assert.rejects(author.exportEntries('2026-07-23', '2026-07-23', 'csv'), /Unknown export format/);
+});
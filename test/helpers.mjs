@@ -0,0 +1,44 @@
+import { GlossClient, MemoryGlossStore } from '../dist/index.js';
+
+/**
+ * A wallet for `identity` that returns a fixed signature.
+ */
+export function stubWallet(identity) {
+  return {
+    getPublicKey: async () => ({ publicKey: identity }),
+    createSignature: async () => ({ signature: [1, 2, 3] })
+  };
+}
+
+/**
+ * A client for `identity` with a stubWallet() and a clock that reads
+ * `state.now`.
+ */
+export function createClient(store, identity, state, options = {}) {
+  return new GlossClient({ wallet: stubWallet(identity), store, timeZone: 'UTC', clock: () => new Date(state.now), ...options });
+}
+
+/**
+ * A store and a clock starting at `start`, and a factory for clients that
+ * share both: the setup of every seed().
+ */
+export function createWorld(start, store = new MemoryGlossStore()) {
+  const state = { now: Date.parse(start) };
+  return { store, state, client: (identity, options) => createClient(store, identity, state, options) };
+}
+
+/**
+ * Wraps a store and records `describe(query, options)` for each read.
+ */
+export function recordingStore(inner, describe) {
+  const reads = [];
+  return {
+    reads,
+    set: (key, value, options) => inner.set(key, value, options),
+    remove: (key, options) => inner.remove(key, options),
+    get: (query, options = {}) => {
+      reads.push(describe(query, options));
+      return inner.get(query, options);
+    }
+  };
+}
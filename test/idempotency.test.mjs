@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { InvalidEntryError, MemoryGlossStore, OverlayUnavailableError } from '../dist/index.js';
+import { createClient as createTestClient, createWorld } from './helpers.mjs';
+
+const day = '2026-07-23';
+
+// Writes reach the store, but the next `lost` calls report a failure anyway,
+// as when the connection drops after the broadcast.
+function createFlakyStore() {
+  const store = new MemoryGlossStore();
+  const flaky = { lost: 0, writes: 0 };
+  flaky.get = (query, options) => store.get(query, options);
+  flaky.remove = (key, options) => store.remove(key, options);
+  flaky.set = async (key, value, options) => {
+    const outpoint = await store.set(key, value, options);
+    flaky.writes++;
+    if (flaky.lost > 0) {
+      flaky.lost--;
+      throw new OverlayUnavailableError('socket hang up');
+    }
+    return outpoint;
+  };
+  return flaky;
+}
+
+function createClient(store, options = {}) {
+  const state = { now: Date.parse(`${day}T10:00:00.000Z`) };
+  // Every call sees a later time, so a retry would get a new generated key.
+  const clock = () => new Date((state.now += 1000) - 1000);
+  return createTestClient(store, '02alice', state, { clock, ...options });
+}
+
+test('a retried log() returns the entry that was already written', async () => {
+  const store = createFlakyStore();
+  const client = createClient(store);
+
+  store.lost = 1;
+  await assert.rejects(client.log('Deployed 1.4', { idempotencyKey: 'deploy-77', tags: ['deploy'] }), OverlayUnavailableError);
+  const retried = await client.log('Deployed 1.4', { idempotencyKey: 'deploy-77', tags: ['deploy'] });
+  assert.equal(store.writes, 1);
+  assert.equal(retried.idempotencyKey, 'deploy-77');
+  assert.deepEqual((await client.listDay(day)).map(entry => [entry.key, entry.idempotencyKey]), [[retried.key, 'deploy-77']]);
+
+  // An edit keeps the idempotency key, and the entry is still found once removed.
+  await client.updateEntryByKey(retried.key, 'Deployed 1.4.1');
+  assert.equal((await client.log('Deployed 1.4', { idempotencyKey: 'deploy-77' })).text, 'Deployed 1.4.1');
+  await client.removeEntry(retried.key);
+  assert.equal((await client.log('Deployed 1.4', { idempotencyKey: 'deploy-77' })).deleted, true);
+  assert.equal(store.writes, 3);
+
+  const explicit = await client.log('Nightly report', { key: `${day}/nightly` });
+  assert.equal(explicit.key, `${day}/nightly`);
+  assert.equal((await client.log('Nightly report, again', { key: `${day}/nightly` })).text, 'Nightly report');
+
+  // The check also covers entries still queued in an outbox.
+  const queued = createClient(new MemoryGlossStore(), { outbox: {} });
+  const first = await queued.log('Offline note', { idempotencyKey: 'note-1' });
+  assert.equal((await queued.log('Offline note', { idempotencyKey: 'note-1' })).key, first.key);
+  assert.equal((await queued.pending()).length, 1);
+  await queued.flush();
+  const [stored] = await queued.listDay(day);
+  assert.deepEqual([stored.key, stored.idempotencyKey], [first.key, 'note-1']);
+  assert.equal((await queued.log('Offline note', { idempotencyKey: 'note-1' })).key, first.key);
+});
+
+test('logMany writes only the entries not logged yet, and keys are validated', async () => {
+  const store = createFlakyStore();
+  const client = createClient(store);
+
+  const [build] = await client.logMany([{ text: 'Build 12 passed', idempotencyKey: 'build-12' }]);
+  const batch = await client.logMany([
+    { text: 'Build 12 passed', idempotencyKey: 'build-12' },
+    { text: 'Build 13 passed', idempotencyKey: 'build-13' },
+    { text: 'Pinned', key: `${day}/000000-pinned` },
+    { text: 'No key' }
+  ]);
+  assert.equal(store.writes, 2);
+  assert.deepEqual([batch[0].key, batch[0].at], [build.key, build.at]);
+  assert.deepEqual(batch.map(entry => entry.text), ['Build 12 passed', 'Build 13 passed', 'Pinned', 'No key']);
+  assert.equal(batch[2].key, `${day}/000000-pinned`);
+  assert.equal((await client.listDay(day)).length, 4);
+
+  const retried = await client.logMany([{ text: 'Build 13 passed', idempotencyKey: 'build-13' }, { text: 'Pinned', key: `${day}/000000-pinned` }]);
+  assert.deepEqual(retried.map(entry => entry.key), batch.slice(1, 3).map(entry => entry.key));
+  assert.equal(store.writes, 2);
+
+  const invalid = [
+    [{ key: '2026-07-22/yesterday' }, /not for 2026-07-23/],
+    [{ key: 'nightly' }, /Invalid entry key/],
+    [{ key: `${day}/has space` }, /Invalid entry key/],
+    [{ key: `${day}/sub/path` }, /Invalid entry key/],
+    [{ idempotencyKey: '' }, /1 to 128 characters/],
+    [{ idempotencyKey: 'x'.repeat(129) }, /1 to 128 characters/]
+  ];
+  for (const [options, message] of invalid) {
+    await assert.rejects(client.log('Rejected', options), error => error instanceof InvalidEntryError && message.test(error.message));
+  }
+  await assert.rejects(
+    client.logMany([{ text: 'A', idempotencyKey: 'same' }, { text: 'B', idempotencyKey: 'same' }]),
+    /Two entries have the same idempotencyKey/
+  );
+  assert.equal(store.writes, 2);
+});
+
+test('getLogHistory keeps the entries of controllers that share an explicit key apart', async () => {
+  const world = createWorld(`${day}T10:00:00.000Z`);
+  const x = world.client('02x');
+  const y = world.client('02y');
+  const key = `${day}/nightly`;
+
+  await x.log('Nightly report by x', { key });
+  await y.log('Nightly report by y', { key });
+  world.state.now += 1000;
+  await x.updateEntryByKey(key, 'Nightly report by x, corrected');
+
+  const history = await x.getLogHistory(key, { controller: '02x' });
+  assert.deepEqual(history.map(entry => [entry.controller, entry.text]), [
+    ['02x', 'Nightly report by x, corrected'],
+    ['02x', 'Nightly report by x']
+  ]);
+  assert.deepEqual((await x.getLogHistory(key, { controller: '02y' })).map(entry => entry.text), ['Nightly report by y']);
+  assert.equal((await x.getLogHistory(key)).length, 3);
+});
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { InvalidEntryError, MemoryGlossStore, MemoryOutboxStorage, NotFoundError } from '../dist/index.js';
+import { createClient as createTestClient } from './helpers.mjs';
+
+const day = '2026-07-23';
+
+function createClient(options = {}) {
+  const state = { now: Date.parse(`${day}T10:00:00.000Z`) };
+  return createTestClient(options.store ?? new MemoryGlossStore(), '02alice', state, options);
+}
+
+test('beforeWrite can change or reject entries and afterWrite sees what was stored', async () => {
+  const written = [];
+  const client = createClient()
+    .use({
+      beforeWrite: (entry, context) => {
+        if (entry.text.includes('password')) throw new Error('Entries must not mention passwords');
+        return { ...entry, tags: [...entry.tags, context.operation], key: 'ignored' };
+      }
+    })
+    .use({
+      afterWrite: (entry, context) => written.push([entry.text, entry.tags, context.operation, context.day, context.txid])
+    });
+
+  const entry = await client.log('Deployed');
+  assert.deepEqual(entry.tags, ['log']);
+  assert.match(entry.key, /^2026-07-23\//);
+  const updated = await client.updateEntryByKey(entry.key, 'Deployed twice');
+  assert.deepEqual(updated.tags, ['log', 'update']);
+
+  await assert.rejects(client.log('The password is hunter2'), error => {
+    assert.ok(error instanceof InvalidEntryError);
+    assert.equal(error.message, 'Entries must not mention passwords');
+    return true;
+  });
+  assert.deepEqual((await client.listDay(day)).map(log => log.text), ['Deployed twice']);
+
+  assert.equal(written.length, 2);
+  assert.deepEqual(written[0].slice(0, 4), ['Deployed', ['log'], 'log', day]);
+  assert.deepEqual(written[1].slice(0, 4), ['Deployed twice', ['log', 'update'], 'update', day]);
+  assert.match(written[0][4], /^[0-9a-f]{64}$/);
+  assert.notEqual(written[0][4], written[1][4]);
+});
+
+test('afterRead transforms list, range and history results', async () => {
+  const contexts = [];
+  const client = createClient({
+    middleware: [{
+      afterRead: (entries, context) => {
+        contexts.push(`${context.operation} ${context.day}`);
+        return entries.filter(entry => !entry.tags.includes('internal')).map(entry => ({ ...entry, text: entry.text.toUpperCase() }));
+      }
+    }]
+  });
+
+  const entry = await client.log('Public note');
+  await client.log('Internal note', { tags: ['internal'] });
+  await client.updateEntryByKey(entry.key, 'Public note, edited');
+
+  assert.deepEqual((await client.listDay(day)).map(log => log.text), ['PUBLIC NOTE, EDITED']);
+  assert.deepEqual((await client.listRange(day, day, { limit: 1 })).map(log => log.text), ['PUBLIC NOTE, EDITED']);
+  assert.deepEqual((await client.getLogHistory(entry.key)).map(log => log.text), ['PUBLIC NOTE, EDITED', 'PUBLIC NOTE']);
+  assert.deepEqual(contexts, [`listDay ${day}`, `iterate ${day}`, `history ${day}`]);
+});
+
+test('onError sees each failure once and afterWrite runs on outbox delivery', async () => {
+  const errors = [];
+  const written = [];
+  const client = createClient({
+    outbox: { storage: new MemoryOutboxStorage() },
+    middleware: [{
+      afterWrite: (entry, context) => written.push([entry.text, context.operation]),
+      onError: (error, context) => errors.push([error.code, context.operation])
+    }]
+  });
+
+  await client.logMany([{ text: 'First' }, { text: 'Second' }]);
+  assert.deepEqual(written, []);
+  await client.flush();
+  assert.deepEqual(written, [['First', 'logMany'], ['Second', 'logMany']]);
+
+  await assert.rejects(client.updateEntryByKey(`${day}/235959-999zzzz`, 'Nothing'), NotFoundError);
+  await assert.rejects(client.listRange(day, 'not a day'), InvalidEntryError);
+  assert.deepEqual(errors, [['NOT_FOUND', 'updateEntryByKey'], ['INVALID_ENTRY', 'iterate']]);
+});
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createClient, createWorld, recordingStore } from './helpers.mjs';
+
+async function seed() {
+  const { store, state, client } = createWorld('2026-06-20T10:00:00.000Z');
+  const alice = client('02alice');
+  const bob = client('02bob');
+
+  await alice.log('Fixed the auth bug in token refresh', { tags: ['auth', 'bugfix'] });
+  state.now = Date.parse('2026-07-20T10:00:00.000Z');
+  await bob.log('Auth service: token refresh now retries twice');
+  await alice.log('Authentication docs updated', { tags: ['docs'] });
+  state.now = Date.parse('2026-07-22T10:00:00.000Z');
+  await bob.log('Refresh the dashboard cache');
+  state.now = Date.parse('2026-07-23T10:00:00.000Z');
+  return { store, state, alice, bob };
+}
+
+test('search ranks by relevance and recency and highlights matches', async () => {
+  const { alice } = await seed();
+
+  const results = await alice.search('token refresh', { from: '2026-06-01' });
+  assert.deepEqual(results.map(result => result.entry.text), [
+    'Auth service: token refresh now retries twice',
+    'Fixed the auth bug in token refresh'
+  ]);
+  assert.equal(results[0].snippet, 'Auth service: **token** **refresh** now retries twice');
+  assert.deepEqual(results[1].highlights, [{ start: 22, end: 27 }, { start: 28, end: 35 }]);
+  assert.ok(results[0].score > results[1].score);
+
+  // Tags count towards relevance: the tagged month-old fix outranks the newer mention.
+  const auth = await alice.search('auth', { from: '2026-06-01' });
+  assert.equal(auth[0].entry.text, 'Fixed the auth bug in token refresh');
+  assert.equal(auth.length, 2);
+});
+
+test('search supports phrases, prefixes, exclusions and filters', async () => {
+  const { alice } = await seed();
+  const texts = async (query, options = {}) =>
+    (await alice.search(query, { from: '2026-06-01', ...options })).map(result => result.entry.text).sort();
+
+  assert.deepEqual(await texts('"refresh the"'), ['Refresh the dashboard cache']);
+  assert.deepEqual(await texts('auth*'), [
+    'Auth service: token refresh now retries twice',
+    'Authentication docs updated',
+    'Fixed the auth bug in token refresh'
+  ]);
+  assert.deepEqual(await texts('auth* -docs -"bug in"'), ['Auth service: token refresh now retries twice']);
+  assert.deepEqual(await texts('refresh', { controller: '02bob' }), [
+    'Auth service: token refresh now retries twice',
+    'Refresh the dashboard cache'
+  ]);
+  // The default range is the last 30 days.
+  assert.deepEqual((await alice.search('auth')).map(result => result.entry.text).sort(), [
+    'Auth service: token refresh now retries twice'
+  ]);
+  assert.deepEqual(await texts('refresh', { limit: 1 }), ['Refresh the dashboard cache']);
+  await assert.rejects(alice.search('-docs'), /at least one term/);
+});
+
+test('search reuses cached days instead of refetching them', async () => {
+  const { store, state } = await seed();
+  const counting = recordingStore(store, query => query);
+  const reader = createClient(counting, '02reader', state, { cache: {} });
+
+  await reader.search('refresh', { from: '2026-07-20', to: '2026-07-22' });
+  const firstReads = counting.reads.length;
+  assert.ok(firstReads > 0);
+  await reader.search('auth', { from: '2026-07-20', to: '2026-07-22' });
+  assert.equal(counting.reads.length, firstReads);
+});
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createWorld } from './helpers.mjs';
+
+async function seed() {
+  const { state, client } = createWorld('2026-07-20T09:15:00.000Z');
+  const alice = client('02alice');
+  const bob = client('02bob');
+
+  const draft = await alice.log('Sprint planning notes', { tags: ['planning'] });
+  state.now = Date.parse('2026-07-20T16:20:00.000Z');
+  await alice.updateEntryByKey(draft.key, 'Sprint planning notes, revised');
+  state.now = Date.parse('2026-07-20T16:40:00.000Z');
+  await alice.updateEntryByKey(draft.key, 'Sprint planning notes, final');
+  await bob.log('Dashboard screenshot', {
+    tags: ['ui', 'planning'],
+    assets: [{ url: 'uhrp://shot', size: 2048 }, 'uhrp://unsized']
+  });
+  const mistake = await bob.log('Posted to the wrong log');
+  await bob.removeEntry(mistake.key);
+  state.now = Date.parse('2026-07-22T23:30:00.000Z');
+  await bob.logMany([{ text: 'Release 1.4 cut', tags: ['release'] }, { text: 'Changelog published', tags: ['release'] }]);
+  return { alice, bob };
+}
+
+test('stats counts entries, edits and assets per controller, tag, day and hour', async () => {
+  const { alice } = await seed();
+  const stats = await alice.stats('2026-07-20', '2026-07-23');
+
+  assert.deepEqual(JSON.parse(JSON.stringify(stats)), stats);
+  assert.equal(stats.from, '2026-07-20');
+  assert.equal(stats.to, '2026-07-23');
+  assert.equal(stats.entries, 4);
+  assert.equal(stats.edits, 2);
+  assert.equal(stats.assets, 2);
+  assert.equal(stats.assetBytes, 2048);
+  // Alice's entry was created at 09:15 and last edited at 16:40.
+  assert.equal(stats.firstAt, '2026-07-20T09:15:00.000Z');
+  assert.equal(stats.lastAt, '2026-07-22T23:30:00.000Z');
+  assert.deepEqual(stats.byController, {
+    '02alice': { entries: 1, edits: 2, assets: 0, assetBytes: 0, firstAt: '2026-07-20T09:15:00.000Z', lastAt: '2026-07-20T16:40:00.000Z' },
+    '02bob': { entries: 3, edits: 0, assets: 2, assetBytes: 2048, firstAt: '2026-07-20T16:40:00.000Z', lastAt: '2026-07-22T23:30:00.000Z' }
+  });
+  assert.deepEqual(stats.byTag, { planning: 2, ui: 1, release: 2 });
+  assert.deepEqual(stats.byDay, { '2026-07-20': 2, '2026-07-21': 0, '2026-07-22': 2, '2026-07-23': 0 });
+  assert.equal(stats.byHour.length, 24);
+  assert.equal(stats.byHour[9], 1);
+  assert.equal(stats.byHour[16], 1);
+  assert.equal(stats.byHour[23], 2);
+});
+
+test('stats applies filters and reports hours in the requested time zone', async () => {
+  const { bob } = await seed();
+
+  const releases = await bob.stats('2026-07-20', '2026-07-22', { tags: ['release'], timeZone: 'Asia/Tokyo' });
+  assert.equal(releases.entries, 2);
+  assert.deepEqual(Object.keys(releases.byController), ['02bob']);
+  // 23:30 UTC is 08:30 in Tokyo.
+  assert.equal(releases.byHour[8], 2);
+
+  const alices = await bob.stats('2026-07-20', '2026-07-22', { controller: '02alice' });
+  assert.equal(alices.entries, 1);
+  assert.equal(alices.edits, 2);
+
+  const empty = await bob.stats('2026-07-21', '2026-07-21');
+  assert.deepEqual(empty.byController, {});
+  assert.equal(empty.firstAt, undefined);
+  await assert.rejects(bob.stats('2026-07-20', '2026-07-21', { timeZone: 'Mars/Olympus' }));
+});